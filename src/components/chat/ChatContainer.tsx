@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { useAgent } from "agents-sdk/react";
 import { useAgentChat } from "agents-sdk/ai-react";
 import type { Message } from "@ai-sdk/react";
@@ -8,20 +8,74 @@ import ChatHeader from './ChatHeader';
 import ChatMessage from './ChatMessage';
 import ChatInput from './ChatInput';
 import ExampleQueries from './ExampleQueries';
+import EntityPanel from '../documents/EntityPanel';
 import { useDocumentRegistry } from '../documents/DocumentRegistry';
-import { useConversation } from '../../hooks/useConversation';
+import { useConversation, type ConversationHookReturn } from '../../hooks/useConversation';
 import { useFeedback } from '../../hooks/useFeedback';
 import { useAuth } from '../../hooks/useAuth';
 import { AUTH_CONFIG } from '../../config';
 import { exportConversation } from '../../utils/exportConversation';
+import { getCitableKeys } from '../../utils/citations';
+import type { ChatState, EntityIndexEntry, SearchToolResult } from '../../shared';
 
 // Response timeout in milliseconds (5 seconds)
 const RESPONSE_TIMEOUT = 5000;
 
 /**
- * Main chat container component 
+ * Main chat container component
+ * Waits for the conversation ID before connecting to the agent, since new IDs are issued by the server
  */
 const ChatContainer: React.FC = () => {
+  const conversation = useConversation();
+
+  if (!conversation.conversationId && conversation.conversationError) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-white px-4">
+        <div className="rounded-lg flex flex-col bg-red-50 border border-red-300 overflow-hidden max-w-md shadow-sm">
+          <div className="px-3 py-1.5 font-mono text-xs border-b border-red-300 flex items-center bg-red-50">
+            <AlertTriangle className="h-3.5 w-3.5 mr-1.5 text-red-600" />
+            <span className="font-semibold text-xs tracking-wide text-red-700">
+              ERROR
+            </span>
+          </div>
+          <div className="px-4 py-3 text-sm text-red-800 font-sans">
+            <p className="mb-2">{conversation.conversationError}</p>
+            <div className="mt-3 flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={conversation.retryConversation}
+                className="inline-flex h-8 items-center justify-center border border-red-400 bg-red-100 text-sm font-medium transition-colors hover:bg-red-200 focus-visible:outline-none px-3 text-red-800 text-xs rounded-md"
+              >
+                <RefreshCw className="h-3.5 w-3.5 icon-visible mr-1" />
+                <span>TRY AGAIN</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!conversation.conversationId) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-white">
+        <Loader2 className="h-10 w-10 text-[#6CA0D6] animate-spin" />
+      </div>
+    );
+  }
+
+  return <ChatSession {...conversation} />;
+};
+
+/**
+ * Chat session for one conversation
+ */
+const ChatSession: React.FC<ConversationHookReturn> = ({
+  conversationId,
+  createNewConversation,
+  urlCopied,
+  shareConversationUrl
+}) => {
   // State for tracking local submission state (separate from API status)
   const [isSubmitting, setIsSubmitting] = useState(false);
   
@@ -46,22 +100,37 @@ const ChatContainer: React.FC = () => {
   // Get authentication context
   const { user, isAuthenticated } = useAuth();
 
-  // Get conversation management hooks
-  const {
-    userId,
-    conversationId,
-    createNewConversation,
-    urlCopied,
-    shareConversationUrl
-  } = useConversation();
-
   // Initialize the document registry
   const documentRegistry = useDocumentRegistry();
 
+  // People, organizations and places indexed from the conversation's documents, synced from the agent
+  const [entities, setEntities] = useState<EntityIndexEntry[]>([]);
+
+  // Whether the conversation uses the larger deep research model, synced from the agent once a turn uses it
+  const [deepResearch, setDeepResearch] = useState(false);
+  // The setting last synced from the agent, so state pushes that don't change it leave a local toggle alone
+  const syncedDeepResearchRef = useRef<boolean | undefined>(undefined);
+
+  // Where the older context summarized to fit the model's budget ends, synced from the agent
+  const [historySummary, setHistorySummary] = useState<ChatState['historySummary']>();
+
+  // Quotes of each reply checked against their cited documents, synced from the agent
+  const [quoteChecks, setQuoteChecks] = useState<ChatState['quoteChecks']>();
+
   // Initialize the agent connection
   const agent = useAgent({
     agent: "chat",
-    name: conversationId
+    name: conversationId,
+    onStateUpdate: (state) => {
+      setEntities((state as ChatState | undefined)?.entities || []);
+      const syncedDeepResearch = (state as ChatState | undefined)?.deepResearch ?? false;
+      if (syncedDeepResearch !== syncedDeepResearchRef.current) {
+        syncedDeepResearchRef.current = syncedDeepResearch;
+        setDeepResearch(syncedDeepResearch);
+      }
+      setHistorySummary((state as ChatState | undefined)?.historySummary);
+      setQuoteChecks((state as ChatState | undefined)?.quoteChecks);
+    }
   });
 
   // Hook to manage the chat state and interactions
@@ -188,8 +257,8 @@ const ChatContainer: React.FC = () => {
         position: user.position || '',
       };
       
-      // Add JWT token from sessionStorage to headers if available
-      const token = sessionStorage.getItem(AUTH_CONFIG.TOKEN_KEY);
+      // Add the auth token to headers so the agent can verify it (useAuth keeps it in localStorage)
+      const token = localStorage.getItem(AUTH_CONFIG.TOKEN_KEY) || sessionStorage.getItem(AUTH_CONFIG.TOKEN_KEY);
       if (token) {
         metadata.headers = {
           Authorization: `Bearer ${token}`
@@ -197,8 +266,8 @@ const ChatContainer: React.FC = () => {
       }
     }
     
-    // Pass user ID from conversation hook (which now uses auth UUID when available)
-    metadata.userId = userId;
+    // Ask for the deep research model when the toggle is on
+    metadata.deepResearch = deepResearch;
 
     handleAgentSubmit(e, { data: metadata });
     
@@ -351,6 +420,34 @@ const ChatContainer: React.FC = () => {
         transform: scale(0.95);
         background-color: #4a80b0;
       }
+      .citation-unverified {
+        display: inline-flex;
+        align-items: center;
+        background-color: #FEF3C7;
+        color: #92400E;
+        border: 1px solid #FCD34D;
+        border-radius: 0.25rem;
+        padding: 0 0.25rem;
+        font-size: 0.65rem;
+        font-weight: 500;
+        margin: 0 0.125rem;
+        vertical-align: text-bottom;
+        cursor: help;
+        line-height: 1.25rem;
+        user-select: none;
+      }
+      .quote-verified {
+        background-color: transparent;
+        color: inherit;
+        border-bottom: 1px dotted #10B981;
+      }
+      .quote-unverified {
+        background-color: #FEF3C7;
+        color: inherit;
+        border-bottom: 2px solid #F59E0B;
+        padding: 0 0.125rem;
+        cursor: help;
+      }
     `;
     
     // Add hover effect conditionally
@@ -398,7 +495,7 @@ const ChatContainer: React.FC = () => {
     // Skip if no messages
     if (!agentMessages || agentMessages.length === 0) return;
     
-    // Process all messages to find queryCollection results
+    // Process all messages to find search and getDocumentMetadata results
     agentMessages.forEach(message => {
       if (message.role !== 'assistant' || !message.parts) return;
       
@@ -406,14 +503,28 @@ const ChatContainer: React.FC = () => {
         if (part.type !== 'tool-invocation') return;
         
         const toolInvocation = (part as any).toolInvocation;
-        if (toolInvocation?.toolName !== 'queryCollection' || toolInvocation?.state !== 'result') return;
-        
-        // Process queryCollection result
+        if (toolInvocation?.state !== 'result') return;
         const result = toolInvocation.result;
-        if (!result || !result.documents || !Array.isArray(result.documents)) return;
+
+        // Metadata results carry the authoritative title for a document
+        if (toolInvocation.toolName === 'getDocumentMetadata') {
+          if (result?.status === 'success' && result.r2Key && result.title) {
+            documentRegistry.setDocumentTitle(result.r2Key, result.title);
+          }
+          return;
+        }
+
+        if (!['queryCollection', 'batchQueryCollection', 'findRelatedDocuments', 'buildTimeline'].includes(toolInvocation.toolName)) return;
+        
+        // Process search result (timeline results group their documents into buckets)
+        const searchResult: SearchToolResult | undefined = result;
+        const documents = Array.isArray(searchResult?.buckets)
+          ? searchResult.buckets.flatMap(bucket => bucket.documents || [])
+          : searchResult?.documents;
+        if (!documents || !Array.isArray(documents)) return;
         
         // Register all documents from the search results
-        result.documents.forEach((doc: any) => {
+        documents.forEach(doc => {
           if (doc.file_info?.r2Key) {
             const title = doc.file_info?.metadata?.title || doc.document_id || `Document`;
             documentRegistry.registerDocument(doc.file_info.r2Key, title);
@@ -423,13 +534,16 @@ const ChatContainer: React.FC = () => {
     });
   }, [agentMessages, documentRegistry]);
 
+  // r2Keys returned by tools in this conversation, so citations of any other document are marked unverified
+  const citableKeys = useMemo(() => getCitableKeys(agentMessages), [agentMessages]);
+
   // Helper function to handle export
   const handleExportConversation = () => {
     exportConversation(agentMessages, documentRegistry);
   };
 
-  // Helper function to handle example query selection
-  const handleExampleQuerySelect = (query: string) => {
+  // Helper function to fill in and submit a query (example queries, search result actions)
+  const handleSendQuery = (query: string) => {
     handleAgentInputChange({ target: { value: query } } as React.ChangeEvent<HTMLTextAreaElement>);
     setTimeout(() => {
       if (!isSubmitting && status !== "streaming" && status !== "error") {
@@ -452,6 +566,14 @@ const ChatContainer: React.FC = () => {
         openNewConversation={openNewConversation}
       />
       
+      {agentMessages.length > 0 && (
+        <EntityPanel
+          entities={entities}
+          chatStatus={status}
+          onSendQuery={handleSendQuery}
+        />
+      )}
+      
       <div className="flex-1 overflow-hidden pb-20 bg-white">
         <div className="mx-auto max-w-6xl mt-4 mb-0 flex-1 overflow-hidden px-4 lg:px-8 py-0">
           <div className="flex flex-col">
@@ -467,7 +589,7 @@ const ChatContainer: React.FC = () => {
                         </p>
                       </div>
                     </div>
-                    <ExampleQueries onSelectQuery={handleExampleQuerySelect} />
+                    <ExampleQueries onSelectQuery={handleSendQuery} />
                   </div>
                 ) : (
                   <>
@@ -475,17 +597,31 @@ const ChatContainer: React.FC = () => {
                       const isLastMessage = index === agentMessages.length - 1;
                       
                       return (
-                        <ChatMessage
-                          key={message.id}
-                          message={message}
-                          isLastMessage={isLastMessage}
-                          status={status}
-                          documentRegistry={documentRegistry}
-                          conversationId={conversationId}
-                          addToolResult={addToolResult}
-                          feedbackState={feedbackState}
-                          handleFeedback={handleFeedback}
-                        />
+                        <React.Fragment key={message.id}>
+                          <ChatMessage
+                            message={message}
+                            isLastMessage={isLastMessage}
+                            status={status}
+                            documentRegistry={documentRegistry}
+                            citableKeys={citableKeys}
+                            quoteChecks={quoteChecks?.[message.id]}
+                            conversationId={conversationId}
+                            addToolResult={addToolResult}
+                            feedbackState={feedbackState}
+                            handleFeedback={handleFeedback}
+                            onSendQuery={handleSendQuery}
+                          />
+                          {historySummary?.throughMessageId === message.id && !isLastMessage && (
+                            <div
+                              className="my-4 flex items-center gap-3 text-xs text-gray-400"
+                              title="To keep this long conversation within the model's context, older search results and document text above were summarized. Their citations still work."
+                            >
+                              <div className="h-px flex-1 bg-gray-200" />
+                              <span>Earlier context summarized</span>
+                              <div className="h-px flex-1 bg-gray-200" />
+                            </div>
+                          )}
+                        </React.Fragment>
                       );
                     })}
                     
@@ -619,6 +755,8 @@ const ChatContainer: React.FC = () => {
             status={status}
             handleInputChange={handleAgentInputChange}
             handleSubmit={handleSubmit}
+            deepResearch={deepResearch}
+            onDeepResearchChange={setDeepResearch}
           />
           
           {/* Ramus footer now inside the fixed container */}
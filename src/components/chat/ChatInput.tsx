@@ -1,5 +1,5 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Send, Square } from 'lucide-react';
+import { Send, Square, Telescope } from 'lucide-react';
 
 interface ChatInputProps {
   input: string;
@@ -7,6 +7,8 @@ interface ChatInputProps {
   status: string;
   handleInputChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
   handleSubmit: (e: React.FormEvent) => void;
+  deepResearch: boolean;
+  onDeepResearchChange: (deepResearch: boolean) => void;
 }
 
 /**
@@ -17,7 +19,9 @@ const ChatInput: React.FC<ChatInputProps> = ({
   isSubmitting,
   status,
   handleInputChange,
-  handleSubmit
+  handleSubmit,
+  deepResearch,
+  onDeepResearchChange
 }) => {
   // Reference to the textarea for auto-resizing
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -123,6 +127,16 @@ const ChatInput: React.FC<ChatInputProps> = ({
                 }),
           }}
         />
+        <button
+          type="button"
+          onClick={() => onDeepResearchChange(!deepResearch)}
+          aria-pressed={deepResearch}
+          title={deepResearch ? "Deep research on: answers use a larger, slower model" : "Turn on deep research to answer with a larger, slower model"}
+          className={`absolute bottom-2.5 left-2.5 flex items-center gap-1.5 rounded-md border px-2 py-1 text-xs transition-all duration-200 cursor-pointer ${deepResearch ? "border-[#6CA0D6] bg-[#6CA0D6]/10 text-[#5a90c0]" : "border-gray-200 bg-white text-gray-500 hover:text-gray-700"}`}
+        >
+          <Telescope className="h-3.5 w-3.5" />
+          Deep research
+        </button>
         <button
           type="submit"
           className="border border-[#6CA0D6] bg-[#6CA0D6] text-white hover:bg-[#5a90c0] rounded-md p-2 absolute bottom-2.5 right-2.5 flex items-center justify-center transition-all duration-200 shadow-sm cursor-pointer disabled:opacity-50 disabled:bg-gray-300 disabled:border-gray-300 disabled:cursor-not-allowed"
@@ -5,16 +5,20 @@ import MessageContent, { ReasoningContent } from './MessageContent';
 import ToolInvocation from './ToolInvocation';
 import { formatTime } from '../../utils/formatting';
 import type { DocumentRegistryType } from '../documents/DocumentRegistry';
+import type { QuoteCheck } from '../../shared';
 
 interface ChatMessageProps {
   message: Message;
   isLastMessage: boolean;
   status: string;
   documentRegistry: DocumentRegistryType;
+  citableKeys: Set<string>;
+  quoteChecks?: QuoteCheck[];
   conversationId: string;
   addToolResult: (result: { toolCallId: string; result: any }) => void;
   feedbackState: Record<string, 'like' | 'dislike' | null>;
   handleFeedback: (messageId: string, feedbackType: 'like' | 'dislike') => Promise<void>;
+  onSendQuery: (query: string) => void;
 }
 
 /**
@@ -25,10 +29,13 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
   isLastMessage,
   status,
   documentRegistry,
+  citableKeys,
+  quoteChecks,
   conversationId,
   addToolResult,
   feedbackState,
-  handleFeedback
+  handleFeedback,
+  onSendQuery
 }) => {
   const isUser = message.role === "user";
   const showActionButtons = !isUser && (!isLastMessage || (isLastMessage && status === "ready"));
@@ -170,6 +177,8 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                           text={part.text} 
                           messageId={message.id} 
                           documentRegistry={documentRegistry} 
+                          citableKeys={citableKeys}
+                          quoteChecks={quoteChecks}
                         />
                       </div>
                     );
@@ -197,6 +206,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                         conversationId={conversationId}
                         status={status}
                         addToolResult={addToolResult}
+                        onSendQuery={onSendQuery}
                       />
                     );
                   }                                    
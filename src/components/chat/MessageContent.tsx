@@ -3,22 +3,57 @@ import ReactMarkdown from 'react-markdown';
 import rehypeRaw from 'rehype-raw';
 import remarkGfm from 'remark-gfm';
 import type { DocumentRegistryType } from '../documents/DocumentRegistry';
+import { UNVERIFIED_CITATION_PREFIX } from '../../utils/citations';
+import type { QuoteCheck } from '../../shared';
 
 interface MessageContentProps {
   text: string;
   messageId: string;
   documentRegistry: DocumentRegistryType;
+  // r2Keys returned by tools in the conversation; citations of other documents are marked unverified
+  citableKeys?: Set<string>;
+  // Quotes in the message checked against their cited documents, in the order they appear
+  quoteChecks?: QuoteCheck[];
 }
 
+/**
+ * Wrap the checked quotes of a message in highlights showing whether they were found in their sources
+ * Checks are in the order the quotes appear, so each is looked up after the previous one
+ */
+const highlightQuotes = (text: string, quoteChecks: QuoteCheck[]): string => {
+  let highlighted = text;
+  let from = 0;
+
+  for (const check of quoteChecks) {
+    const position = highlighted.indexOf(check.quote, from);
+    if (position === -1) continue;
+
+    const mark = check.verified
+      ? `<mark class="quote-verified" title="Quote found in the cited document">${check.quote}</mark>`
+      : `<mark class="quote-unverified" title="Quote not found in the cited document. Check the source before relying on it.">${check.quote}</mark>`;
+    highlighted = highlighted.substring(0, position) + mark + highlighted.substring(position + check.quote.length);
+    from = position + mark.length;
+  }
+
+  return highlighted;
+};
+
 /**
  * Component for rendering message content with markdown and citation support
  */
-const MessageContent: React.FC<MessageContentProps> = ({ text, messageId, documentRegistry }) => {
-  // Process special citation codes: {{cite:r2Key}}
+const MessageContent: React.FC<MessageContentProps> = ({ text, messageId, documentRegistry, citableKeys, quoteChecks }) => {
+  // Process special citation codes: {{cite:r2Key}}, and {{cite-unverified:r2Key}} flagged by the server
   // Convert to custom span that will be parsed as HTML with rehypeRaw
-  const processedText = text.replace(
-    /{{cite:([^}]+)}}/g, 
-    (match, r2Key) => {
+  const processedText = highlightQuotes(text, quoteChecks || []).replace(
+    /{{(cite|cite-unverified):([^}]+)}}/g, 
+    (match, marker, citedKey) => {
+      const r2Key = citedKey.trim();
+
+      // Citations of documents no tool returned aren't numbered or linked
+      if (marker === UNVERIFIED_CITATION_PREFIX || (citableKeys && !citableKeys.has(r2Key))) {
+        return `<span class="citation-unverified" data-r2key="${r2Key}" title="Unverified citation: no search in this conversation returned ${r2Key}">unverified</span>`;
+      }
+
       // Register document if not already registered
       const docId = documentRegistry.registerDocument(r2Key);
       return `<span class="citation" data-number="${docId}" data-r2key="${r2Key}" title="View source document ${docId}: ${documentRegistry.getDocumentTitle(r2Key)}">${docId}</span>`;
@@ -1,8 +1,10 @@
 import React from 'react';
-import { RefreshCw, Check, AlertTriangle } from 'lucide-react';
-import { APPROVAL } from '../../shared';
+import { RefreshCw, Check, AlertTriangle, Coins } from 'lucide-react';
+import { APPROVAL, type SearchToolArgs } from '../../shared';
 import DocumentResults from '../documents/DocumentResults';
-import { formatDateRange } from '../../utils/formatting';
+import DocumentPassages from '../documents/DocumentPassages';
+import TimelineResults from '../documents/TimelineResults';
+import { formatDateRange, formatSearchFilters } from '../../utils/formatting';
 
 // List of tools that require human confirmation before execution
 // This is used to determine which tool invocations should display confirmation UI
@@ -18,6 +20,7 @@ interface ToolInvocationProps {
   conversationId: string;
   status: string;
   addToolResult: (result: { toolCallId: string; result: any }) => void;
+  onSendQuery: (query: string) => void;
 }
 
 /**
@@ -29,55 +32,155 @@ const ToolInvocation: React.FC<ToolInvocationProps> = ({
   index,
   conversationId,
   status,
-  addToolResult
+  addToolResult,
+  onSendQuery
 }) => {
   const toolCallId = toolInvocation.toolCallId;
   const toolName = toolInvocation.toolName;
+
+  // Any tool that costs credits can return a quota_exceeded result
+  if (toolInvocation.state === 'result' && toolInvocation.result?.error === 'quota_exceeded') {
+    const { balance, cost, resets_at: resetsAt } = toolInvocation.result;
+    return (
+      <div 
+        key={`${messageId}-tool-quota-${index}`} 
+        className="bg-amber-50 p-3 my-3 border border-amber-300 rounded-md text-amber-800 flex items-center gap-2 shadow-sm"
+      >
+        <Coins size={14} className="text-amber-500 flex-shrink-0" />
+        <span className="text-xs font-medium">
+          Credit limit reached: this step needs {cost} {cost === 1 ? 'credit' : 'credits'} and {balance} {balance === 1 ? 'remains' : 'remain'} this month.
+          {resetsAt && ` Credits reset on ${new Date(resetsAt).toLocaleDateString()}.`}
+        </span>
+      </div>
+    );
+  }
   
-  // 1. Render Query Collection Tool
-  if (toolName === 'queryCollection') {
+  // 1. Render Search Tools (query, batch query and related documents)
+  if (['queryCollection', 'batchQueryCollection', 'findRelatedDocuments'].includes(toolName)) {
+    const searchArgs: SearchToolArgs | undefined = toolInvocation.args;
+
+    if (toolInvocation.state !== 'result' && toolName === 'batchQueryCollection') {
+      const subQueries = (searchArgs?.queries || [])
+        .map(subQuery => subQuery?.query)
+        .filter((query): query is string => !!query);
+
+      return (
+        <div 
+          key={`${messageId}-tool-searching-${index}`} 
+          className="bg-blue-50 p-3 my-3 border border-blue-200 rounded-md text-blue-700 shadow-sm"
+        >
+          <div className="flex items-center gap-2">
+            <RefreshCw size={14} className="animate-spin text-blue-500" />
+            <span className="text-xs font-medium">Running {subQueries.length || ''} searches in parallel...</span>
+          </div>
+          {subQueries.length > 0 && (
+            <ol className="mt-1.5 ml-6 list-decimal text-[11px] italic text-blue-800">
+              {subQueries.map(subQuery => <li key={subQuery}>{subQuery}</li>)}
+            </ol>
+          )}
+        </div>
+      );
+    }
+    if (toolInvocation.state !== 'result' && toolName === 'findRelatedDocuments') {
+      const r2Key = searchArgs?.r2Key || 'unknown document';
+      const r2KeySnippet = r2Key.length > 40 ? `...${r2Key.substring(r2Key.length - 40)}` : r2Key;
+
+      return (
+        <div 
+          key={`${messageId}-tool-searching-${index}`} 
+          className="bg-blue-50 p-3 my-3 border border-blue-200 rounded-md text-blue-700 flex items-center gap-2 shadow-sm"
+        >
+          <RefreshCw size={14} className="animate-spin text-blue-500" />
+          <span className="text-xs font-medium">
+            Finding documents related to: <span className="font-mono text-[10px] bg-blue-100 px-1 rounded">{r2KeySnippet}</span>...
+          </span>
+        </div>
+      );
+    }
     if (toolInvocation.state !== 'result') {
-      const queryText = toolInvocation.args?.query || '...';
-      const dateRangeStr = formatDateRange(toolInvocation.args);
+      const queryText = searchArgs?.query || '...';
+      const dateRangeStr = formatDateRange(searchArgs);
       const displayText = `"${queryText.length > 60 ? queryText.substring(0, 60) + '...' : queryText}" ${dateRangeStr}`.trim();
+      const filterLabels = formatSearchFilters(searchArgs);
 
       return (
         <div 
           key={`${messageId}-tool-searching-${index}`} 
-          className="bg-blue-50 p-3 my-3 border border-blue-200 rounded-md text-blue-700 flex items-center gap-2 shadow-sm"
+          className="bg-blue-50 p-3 my-3 border border-blue-200 rounded-md text-blue-700 flex flex-wrap items-center gap-2 shadow-sm"
         >
           <RefreshCw size={14} className="animate-spin text-blue-500" />
           <span className="text-xs font-medium">
             Searching archive for: <span className="italic">{displayText}</span>
           </span>
+          {filterLabels.map(label => (
+            <span 
+              key={label} 
+              className="text-[10px] font-medium bg-blue-100 border border-blue-200 text-blue-800 px-1.5 py-0.5 rounded-full"
+            >
+              {label}
+            </span>
+          ))}
         </div>
       );
     }
-    else if (toolInvocation.result && typeof toolInvocation.result === 'object') {
+    if (toolInvocation.result && typeof toolInvocation.result === 'object') {
       return (
         <div key={`${messageId}-tool-results-${index}`} className="my-3">
           <DocumentResults 
             resultData={toolInvocation.result} 
+            searchArgs={searchArgs}
             chatStatus={status}
             conversationId={conversationId}
+            onSendQuery={onSendQuery}
           />
         </div>
       );
     }
-    else {
+    return (
+      <div 
+        key={`${messageId}-tool-unknown-${index}`} 
+        className="bg-gray-50 p-3 my-3 border border-gray-200 rounded-md text-gray-500 flex items-center gap-2 shadow-sm"
+      >
+        <AlertTriangle size={14} className="text-gray-400 flex-shrink-0" />
+        <span className="text-xs font-medium italic">Received unexpected search result format.</span>
+      </div>
+    );
+  }
+  
+  // 2. Render Build Timeline Tool
+  if (toolName === 'buildTimeline') {
+    if (toolInvocation.state !== 'result') {
+      const queryText = toolInvocation.args?.query || '...';
+      const rangeStr = formatDateRange({
+        authored_start_year_month: toolInvocation.args?.start_year_month,
+        authored_end_year_month: toolInvocation.args?.end_year_month
+      });
+
       return (
         <div 
-          key={`${messageId}-tool-unknown-${index}`} 
-          className="bg-gray-50 p-3 my-3 border border-gray-200 rounded-md text-gray-500 flex items-center gap-2 shadow-sm"
+          key={`${messageId}-tool-timeline-${index}`} 
+          className="bg-blue-50 p-3 my-3 border border-blue-200 rounded-md text-blue-700 flex items-center gap-2 shadow-sm"
         >
-          <AlertTriangle size={14} className="text-gray-400 flex-shrink-0" />
-          <span className="text-xs font-medium italic">Received unexpected search result format.</span>
+          <RefreshCw size={14} className="animate-spin text-blue-500" />
+          <span className="text-xs font-medium">
+            Building timeline for: <span className="italic">{`"${queryText.length > 60 ? `${queryText.substring(0, 60)}...` : queryText}" ${rangeStr}`.trim()}</span>
+          </span>
         </div>
       );
     }
+
+    return (
+      <div key={`${messageId}-tool-timeline-${index}`} className="my-3">
+        <TimelineResults
+          resultData={toolInvocation.result || {}}
+          chatStatus={status}
+          conversationId={conversationId}
+        />
+      </div>
+    );
   }
-  
-  // 2. Render Get Document Text Tool
+
+  // 3. Render Get Document Text Tool
   if (toolName === 'getDocumentText') {
     const r2Key = toolInvocation.args?.r2Key || 'unknown document';
     const r2KeySnippet = r2Key.length > 40 ? `...${r2Key.substring(r2Key.length - 40)}` : r2Key;
@@ -98,7 +201,15 @@ const ToolInvocation: React.FC<ToolInvocationProps> = ({
     
     const result = toolInvocation.result;
     const isError = typeof result === 'object' && result !== null && result.error;
-    const errorMessage = isError ? result.error : 'Unknown error';
+    const errorMessage = isError ? (result.message || result.error) : 'Unknown error';
+
+    // Describe which part of the document was read, for sliced results
+    const hasSlice = typeof result === 'object' && result !== null && typeof result.total_chars === 'number' && typeof result.end_char === 'number';
+    const sliceDescription = hasSlice
+      ? (result.start_page && result.total_pages > 1
+          ? `pages ${result.start_page}${result.end_page !== result.start_page ? `–${result.end_page}` : ''} of ${result.total_pages}`
+          : `${(result.end_char - result.start_char).toLocaleString()} of ${result.total_chars.toLocaleString()} characters`)
+      : '';
 
     if (isError) {
       return (
@@ -121,14 +232,119 @@ const ToolInvocation: React.FC<ToolInvocationProps> = ({
         >
           <Check size={14} className="text-blue-500 flex-shrink-0" />
           <span className="text-xs font-medium">
-            Document text retrieved.
+            Document text retrieved{sliceDescription ? ` (${sliceDescription})` : ''}.
+          </span>
+        </div>
+      );
+    }
+  }
+
+  // 4. Render Get Document Metadata Tool
+  if (toolName === 'getDocumentMetadata') {
+    const r2Key = toolInvocation.args?.r2Key || 'unknown document';
+    const r2KeySnippet = r2Key.length > 40 ? `...${r2Key.substring(r2Key.length - 40)}` : r2Key;
+
+    if (toolInvocation.state !== 'result') {
+      return (
+        <div 
+          key={`${messageId}-tool-fetching-${index}`} 
+          className="bg-blue-50 p-3 my-3 border border-blue-200 rounded-md text-blue-700 flex items-center gap-2 shadow-sm"
+        >
+          <RefreshCw size={14} className="animate-spin text-blue-500" />
+          <span className="text-xs font-medium">
+            Fetching details for document: <span className="font-mono text-[10px] bg-blue-100 px-1 rounded">{r2KeySnippet}</span>...
+          </span>
+        </div>
+      );
+    }
+
+    const result = toolInvocation.result;
+    if (!result || result.status === 'error') {
+      return (
+        <div 
+          key={`${messageId}-tool-error-${index}`} 
+          className="bg-red-50 p-3 my-3 border border-red-300 rounded-md text-red-700 flex items-center gap-2 shadow-sm"
+        >
+          <AlertTriangle size={14} className="text-red-500 flex-shrink-0" />
+          <span className="text-xs font-medium">
+            Error fetching details for <span className="font-mono text-[10px] bg-red-100 px-1 rounded">{r2KeySnippet}</span>: {result?.message || result?.error || 'Unknown error'}
           </span>
         </div>
       );
     }
+
+    const details = [
+      result.authored_date,
+      result.classification,
+      result.page_count ? `${result.page_count} ${result.page_count === 1 ? 'page' : 'pages'}` : null
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <div 
+        key={`${messageId}-tool-success-${index}`} 
+        className="bg-blue-50 p-3 my-3 border border-blue-200 rounded-md text-blue-700 flex items-center gap-2 shadow-sm"
+      >
+        <Check size={14} className="text-blue-500 flex-shrink-0" />
+        <span className="text-xs font-medium">
+          Document details retrieved: <span className="italic">{result.title || r2KeySnippet}</span>{details ? ` (${details})` : ''}.
+        </span>
+      </div>
+    );
+  }
+
+  // 5. Render Ask Document Tool
+  if (toolName === 'askDocument') {
+    const question = toolInvocation.args?.question || '';
+
+    if (toolInvocation.state !== 'result') {
+      return (
+        <div 
+          key={`${messageId}-tool-asking-${index}`} 
+          className="bg-blue-50 p-3 my-3 border border-blue-200 rounded-md text-blue-700 flex items-center gap-2 shadow-sm"
+        >
+          <RefreshCw size={14} className="animate-spin text-blue-500" />
+          <span className="text-xs font-medium">
+            Searching within document{question ? <>: <span className="italic">"{question}"</span></> : ''}...
+          </span>
+        </div>
+      );
+    }
+
+    return (
+      <div key={`${messageId}-tool-passages-${index}`} className="my-3">
+        <DocumentPassages
+          resultData={toolInvocation.result || {}}
+          conversationId={conversationId}
+        />
+      </div>
+    );
+  }
+
+  // 6. Render List Entities Tool (the entities themselves are shown in the side panel)
+  if (toolName === 'listEntities') {
+    const result = toolInvocation.result;
+    const isDone = toolInvocation.state === 'result';
+    const isError = isDone && (!result || result.status === 'error');
+
+    return (
+      <div 
+        key={`${messageId}-tool-entities-${index}`} 
+        className={`p-3 my-3 border rounded-md flex items-center gap-2 shadow-sm ${isError ? 'bg-red-50 border-red-300 text-red-700' : 'bg-blue-50 border-blue-200 text-blue-700'}`}
+      >
+        {!isDone && <RefreshCw size={14} className="animate-spin text-blue-500" />}
+        {isDone && (isError ? <AlertTriangle size={14} className="text-red-500 flex-shrink-0" /> : <Check size={14} className="text-blue-500 flex-shrink-0" />)}
+        <span className="text-xs font-medium">
+          {!isDone
+            ? 'Indexing people, organizations and places...'
+            : isError
+              ? `Error listing entities: ${result?.message || result?.error || 'Unknown error'}`
+              : `Found ${result.entities?.length || 0} people, organizations and places across ${result.total_documents || 0} documents.`}
+        </span>
+      </div>
+    );
   }
 
-  // 3. Render Confirmation UI (for submitFeedback and potentially others)
+  // 7. Render Confirmation UI (for submitFeedback and potentially others)
   if (
     toolsRequiringConfirmation.includes(toolName) &&
     toolInvocation.state === "call"
@@ -178,8 +394,8 @@ const ToolInvocation: React.FC<ToolInvocationProps> = ({
     );
   }
 
-  // 4. Render Standard Tool Results (for non-queryCollection, non-getDocumentText tools)
-  if (toolInvocation.state === 'result' && !['queryCollection', 'getDocumentText'].includes(toolName)) {
+  // 8. Render Standard Tool Results (for tools without a dedicated renderer above)
+  if (toolInvocation.state === 'result' && !['queryCollection', 'batchQueryCollection', 'findRelatedDocuments', 'buildTimeline', 'getDocumentText', 'getDocumentMetadata', 'askDocument', 'listEntities'].includes(toolName)) {
     if (toolName === 'submitFeedback') {
       const result = toolInvocation.result;
       const isError = typeof result === 'object' && result !== null && !result.success;
@@ -0,0 +1,106 @@
+import type React from 'react';
+import { useState } from 'react';
+import { FileText, AlertTriangle, Copy, Check } from 'lucide-react';
+import { trackDocumentClick } from './DocumentRegistry';
+import type { DocumentPassage, SearchToolResult } from '../../shared';
+
+interface DocumentPassagesProps {
+  resultData: SearchToolResult;
+  conversationId: string;
+}
+
+/**
+ * Component for displaying the passages of a document that answer a question
+ */
+const DocumentPassages: React.FC<DocumentPassagesProps> = ({
+  resultData,
+  conversationId
+}) => {
+  const [copiedChunkId, setCopiedChunkId] = useState<string | null>(null);
+
+  // Error result component
+  if (resultData.status === 'error') {
+    const errorMessage = resultData.message || resultData.error || 'An error occurred searching the document.';
+    return (
+      <div className="bg-red-50 p-3 border border-red-300 rounded-md text-red-700 flex items-center gap-2 shadow-sm">
+        <AlertTriangle size={14} className="text-red-500 flex-shrink-0" />
+        <span className="text-xs font-medium">Document Search Error: {errorMessage}</span>
+      </div>
+    );
+  }
+
+  const passages = resultData.passages || [];
+  const r2Key = resultData.r2Key;
+  const title = resultData.title || r2Key || 'Unknown Document';
+
+  // No results component
+  if (passages.length === 0) {
+    return (
+      <div className="bg-gray-50 p-3 border border-gray-200 rounded-md text-gray-600 flex items-center gap-2 shadow-sm">
+        <FileText size={14} className="text-gray-400 flex-shrink-0" />
+        <span className="text-xs font-medium italic">No passages in this document matched the question.</span>
+      </div>
+    );
+  }
+
+  // Copy a passage as a quotation with its source
+  const handleCopy = async (passage: DocumentPassage) => {
+    const location = passage.page ? `, p. ${passage.page}` : '';
+    try {
+      await navigator.clipboard.writeText(`"${passage.text.trim()}" (${title}${location})`);
+      setCopiedChunkId(passage.chunk_id);
+      setTimeout(() => setCopiedChunkId(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy passage:', error);
+    }
+  };
+
+  // Results component
+  return (
+    <div className="bg-blue-50/70 p-3 border border-blue-200 rounded-md text-gray-800 shadow-sm">
+      <div className="text-xs font-medium mb-2 text-blue-800 flex items-center gap-1.5">
+        <FileText size={12} className="text-blue-500 flex-shrink-0" />
+        <span>
+          {passages.length} {passages.length === 1 ? 'passage' : 'passages'} from{' '}
+          {r2Key ? (
+            <a
+              href={`https://doc-viewer.ramus.network/${r2Key}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline hover:text-blue-600"
+              onClick={() => trackDocumentClick(r2Key, conversationId)}
+            >
+              {title}
+            </a>
+          ) : title}
+        </span>
+      </div>
+      <div className="flex flex-col gap-2">
+        {passages.map(passage => (
+          <figure key={passage.chunk_id} className="bg-white border border-blue-200 rounded-md p-2 shadow-sm">
+            <blockquote className="text-xs text-gray-700 whitespace-pre-wrap break-words border-l-2 border-blue-300 pl-2 max-h-40 overflow-auto">
+              {passage.text.trim()}
+            </blockquote>
+            <figcaption className="mt-1.5 flex items-center justify-between text-[10px] text-gray-500">
+              <span>
+                {passage.page ? `Page ${passage.page}` : 'Location unknown'}
+                {typeof passage.start_char === 'number' && ` · chars ${passage.start_char.toLocaleString()}–${(passage.end_char ?? passage.start_char).toLocaleString()}`}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleCopy(passage)}
+                className="inline-flex h-5 items-center gap-1 px-1.5 rounded text-[10px] font-medium text-blue-700 border border-blue-200 bg-white transition-colors hover:bg-blue-100 cursor-pointer"
+                title="Copy as quotation"
+              >
+                {copiedChunkId === passage.chunk_id ? <Check size={10} /> : <Copy size={10} />}
+                {copiedChunkId === passage.chunk_id ? 'Copied' : 'Copy quote'}
+              </button>
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPassages;
@@ -5,9 +5,10 @@ import { useMemo } from 'react';
  * Maintains a map of documents referenced in the conversation
  */
 export interface DocumentRegistryType {
-  documents: Map<string, { id: number, title: string }>;
+  documents: Map<string, { id: number, title: string, hasTitle: boolean }>;
   counter: number;
   registerDocument: (r2Key: string, title?: string) => number;
+  setDocumentTitle: (r2Key: string, title: string) => void;
   getDocumentId: (r2Key: string) => number | null;
   getDocumentUrl: (r2Key: string) => string;
   getDocumentTitle: (r2Key: string) => string;
@@ -20,7 +21,7 @@ export interface DocumentRegistryType {
 export function useDocumentRegistry(): DocumentRegistryType {
   return useMemo(() => {
     return {
-      documents: new Map<string, { id: number, title: string }>(),
+      documents: new Map<string, { id: number, title: string, hasTitle: boolean }>(),
       counter: 0,
       
       /**
@@ -30,19 +31,41 @@ export function useDocumentRegistry(): DocumentRegistryType {
        * @returns Document ID (numbering system for citations)
        */
       registerDocument(r2Key: string, title?: string): number {
-        // Check if document already registered
-        if (this.documents.has(r2Key)) {
-          return this.documents.get(r2Key)!.id;
+        // Check if document already registered, filling in a placeholder title if we now have one
+        const existing = this.documents.get(r2Key);
+        if (existing) {
+          if (title && !existing.hasTitle) {
+            existing.title = title;
+            existing.hasTitle = true;
+          }
+          return existing.id;
         }
         
         // Register new document
         const docId = ++this.counter;
         this.documents.set(r2Key, { 
           id: docId, 
-          title: title || `Document ${docId}` 
+          title: title || `Document ${docId}`,
+          hasTitle: !!title
         });
         return docId;
       },
+
+      /**
+       * Set a document's title from its authoritative metadata, replacing any earlier title
+       * Registers the document if it hasn't been seen yet
+       * @param r2Key Document key
+       * @param title Document title
+       */
+      setDocumentTitle(r2Key: string, title: string): void {
+        const existing = this.documents.get(r2Key);
+        if (existing) {
+          existing.title = title;
+          existing.hasTitle = true;
+          return;
+        }
+        this.registerDocument(r2Key, title);
+      },
       
       /**
        * Get document ID if registered
@@ -1,23 +1,14 @@
 import React, { useState } from 'react';
-import { FileText, AlertTriangle } from 'lucide-react';
+import { FileText, AlertTriangle, ChevronsDown, Search, RefreshCw } from 'lucide-react';
 import { trackDocumentClick } from './DocumentRegistry';
-
-interface Document {
-  document_id: string;
-  file_info?: {
-    r2Key?: string;
-    metadata?: {
-      title?: string;
-      [key: string]: any;
-    };
-  };
-  [key: string]: any;
-}
+import { SEARCH_ERROR_MESSAGES, type SearchErrorCode, type SearchResultDocument, type SearchToolArgs, type SearchToolResult } from '../../shared';
 
 interface DocumentResultsProps {
-  resultData: any;
+  resultData: SearchToolResult;
+  searchArgs?: SearchToolArgs;
   chatStatus: string;
   conversationId: string;
+  onSendQuery?: (query: string) => void;
 }
 
 /**
@@ -25,20 +16,30 @@ interface DocumentResultsProps {
  */
 const DocumentResults: React.FC<DocumentResultsProps> = ({ 
   resultData, 
+  searchArgs,
   chatStatus,
-  conversationId
+  conversationId,
+  onSendQuery
 }) => {
   const [copiedDocId, setCopiedDocId] = useState<string | null>(null);
   
-  let documents: Document[] = [];
+  let documents: SearchResultDocument[] = [];
   let totalChunks = 0;
   let localStatus = 'unknown';
   let isError = false;
   let errorMessage = 'An error occurred retrieving search results.';
+  // Timeouts and outages of the search service are transient, so they're shown as a warning
+  let isServiceUnavailable = false;
 
   if (resultData.status === 'error') {
     isError = true;
-    errorMessage = resultData.message || resultData.error || errorMessage;
+    if (resultData.error && resultData.error in SEARCH_ERROR_MESSAGES) {
+      errorMessage = SEARCH_ERROR_MESSAGES[resultData.error as SearchErrorCode];
+      isServiceUnavailable = resultData.error !== 'search_failed';
+    }
+    else {
+      errorMessage = resultData.message || resultData.error || errorMessage;
+    }
   }
   else if ('documents' in resultData) {
     documents = resultData.documents || [];
@@ -46,6 +47,42 @@ const DocumentResults: React.FC<DocumentResultsProps> = ({
     localStatus = resultData.status || 'success';
   }
 
+  // Sub-queries of a batch search, used to show which of them found each document
+  const subQueries = Array.isArray(resultData.sub_queries) ? resultData.sub_queries : [];
+  const describeMatches = (doc: SearchResultDocument): string => {
+    if (subQueries.length < 2 || !Array.isArray(doc.matched_queries)) return '';
+    return doc.matched_queries.map(queryIndex => `"${subQueries[queryIndex]?.query ?? queryIndex}"`).join(', ');
+  };
+
+  // Continuation cursor for fetching the next page of the same query
+  const nextCursor: string | undefined = resultData.pagination?.has_more ? resultData.pagination.next_cursor : undefined;
+  const isLaterPage = (resultData.pagination?.offset || 0) > 0;
+  const canShowMore = !!(nextCursor && searchArgs?.query && onSendQuery);
+  const isChatBusy = chatStatus === 'streaming' || chatStatus === 'submitted';
+
+  // Ask the assistant for the next page of results
+  const handleShowMore = () => {
+    if (!canShowMore || isChatBusy) return;
+    onSendQuery!(`Show more results for "${searchArgs?.query}" (cursor: ${nextCursor})`);
+  };
+
+  // Ask the assistant for documents similar to one of the results
+  const handleMoreLikeThis = (doc: SearchResultDocument) => {
+    if (!onSendQuery || !doc.file_info?.r2Key || isChatBusy) return;
+    const title = doc.file_info.metadata?.title || doc.document_id;
+    onSendQuery(`Find more documents like "${title}" (r2Key: ${doc.file_info.r2Key})`);
+  };
+
+  // Search service unavailable component
+  if (isError && isServiceUnavailable) {
+    return (
+      <div className="bg-amber-50 p-3 border border-amber-300 rounded-md text-amber-800 flex items-center gap-2 shadow-sm">
+        <RefreshCw size={14} className="text-amber-500 flex-shrink-0" />
+        <span className="text-xs font-medium">{errorMessage}</span>
+      </div>
+    );
+  }
+
   // Error result component
   if (isError) {
     return (
@@ -61,7 +98,9 @@ const DocumentResults: React.FC<DocumentResultsProps> = ({
     return (
       <div className="bg-gray-50 p-3 border border-gray-200 rounded-md text-gray-600 flex items-center gap-2 shadow-sm">
         <FileText size={14} className="text-gray-400 flex-shrink-0" />
-        <span className="text-xs font-medium italic">No documents found matching your query.</span>
+        <span className="text-xs font-medium italic">
+          {isLaterPage ? 'No further documents found for this query.' : 'No documents found matching your query.'}
+        </span>
       </div>
     );
   }
@@ -70,24 +109,24 @@ const DocumentResults: React.FC<DocumentResultsProps> = ({
   return (
     <div className="bg-blue-50/70 p-3 border border-blue-200 rounded-md text-gray-800 shadow-sm">
       <div className="text-xs font-medium mb-2 text-blue-800">
-        Found {documents.length} documents             
+        Found {documents.length} {isLaterPage ? 'more ' : ''}documents{subQueries.length > 1 ? ` across ${subQueries.length} searches` : ''}             
         {/* {localStatus === 'partial_success' && <span className="text-amber-600 font-normal ml-1">(partial results)</span>} */}
       </div>
       <div className="flex flex-wrap gap-2">
-        {documents.map((doc: Document, i: number) => {
+        {documents.map((doc: SearchResultDocument, i: number) => {
           const baseClasses = "inline-flex items-center gap-1.5 h-7 px-3 rounded-full text-xs font-medium transition-colors shadow-sm";
           const linkClasses = doc.file_info?.r2Key 
             ? `bg-white border border-blue-300 text-blue-800 cursor-pointer ${chatStatus !== 'streaming' ? 'hover:bg-blue-100 hover:border-blue-400' : ''}` 
             : 'bg-gray-100 border border-gray-300 text-gray-500 cursor-default';
           
           return (
-            <div key={doc.document_id || i} className="relative group">
+            <div key={doc.document_id || i} className="relative group inline-flex items-center gap-0.5">
               <a
                 href={doc.file_info?.r2Key ? `https://doc-viewer.ramus.network/${doc.file_info.r2Key}` : '#'}
                 target={doc.file_info?.r2Key ? "_blank" : "_self"}
                 rel="noopener noreferrer"
                 className={`${baseClasses} ${linkClasses}`}
-                title={doc.file_info?.metadata?.title || doc.document_id || 'Unknown Document'}
+                title={`${doc.file_info?.metadata?.title || doc.document_id || 'Unknown Document'}${describeMatches(doc) ? `\nMatched: ${describeMatches(doc)}` : ''}`}
                 onClick={(e) => { 
                   if (!doc.file_info?.r2Key) {
                     e.preventDefault();
@@ -102,11 +141,41 @@ const DocumentResults: React.FC<DocumentResultsProps> = ({
                 <span className="truncate max-w-[200px]">
                   {doc.file_info?.metadata?.title || doc.document_id || 'Unknown Document'}
                 </span>
+                {describeMatches(doc) && (
+                  <span className="text-[10px] font-normal text-blue-500">
+                    {doc.matched_queries?.map(queryIndex => queryIndex + 1).join('·')}
+                  </span>
+                )}
               </a>
+              {onSendQuery && doc.file_info?.r2Key && (
+                <button
+                  type="button"
+                  onClick={() => handleMoreLikeThis(doc)}
+                  disabled={isChatBusy}
+                  className="inline-flex h-6 w-6 items-center justify-center rounded-full text-blue-600 border border-transparent transition-colors hover:bg-blue-100 hover:border-blue-300 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                  title="More like this"
+                  aria-label={`Find documents like ${doc.file_info.metadata?.title || doc.document_id}`}
+                >
+                  <Search size={11} />
+                </button>
+              )}
             </div>
           );
         })}
       </div>
+      {canShowMore && (
+        <div className="mt-2 flex justify-end">
+          <button
+            type="button"
+            onClick={handleShowMore}
+            disabled={isChatBusy}
+            className="inline-flex h-6 items-center gap-1 px-2 rounded-md text-[11px] font-medium text-blue-700 border border-blue-200 bg-white transition-colors hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+          >
+            <ChevronsDown size={12} />
+            Show more results
+          </button>
+        </div>
+      )}
     </div>
   );
 };
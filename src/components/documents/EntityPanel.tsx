@@ -0,0 +1,106 @@
+import type React from 'react';
+import { useState } from 'react';
+import { Users, X, Search } from 'lucide-react';
+import { ENTITY_TYPE_LABELS, type EntityIndexEntry, type EntityType } from '../../shared';
+
+interface EntityPanelProps {
+  entities: EntityIndexEntry[];
+  chatStatus: string;
+  onSendQuery: (query: string) => void;
+}
+
+/**
+ * Side panel listing the people, organizations and places found in the conversation's documents
+ * Clicking an entity asks the assistant to search the archive for it
+ */
+const EntityPanel: React.FC<EntityPanelProps> = ({
+  entities,
+  chatStatus,
+  onSendQuery
+}) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [activeType, setActiveType] = useState<EntityType>('person');
+
+  if (entities.length === 0) return null;
+
+  const isChatBusy = chatStatus === 'streaming' || chatStatus === 'submitted';
+  const visibleEntities = entities.filter(entity => entity.type === activeType);
+
+  // Search the archive for documents mentioning an entity
+  const handleSearch = (entity: EntityIndexEntry) => {
+    if (isChatBusy) return;
+    onSendQuery(`Search the archive for documents mentioning "${entity.name}" (hybrid search)`);
+  };
+
+  // Collapsed toggle button
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="hidden xl:inline-flex fixed right-4 top-20 z-10 h-8 items-center gap-1.5 px-3 rounded-md text-xs font-medium text-blue-700 border border-blue-200 bg-white shadow-sm transition-colors hover:bg-blue-50 cursor-pointer"
+      >
+        <Users size={14} />
+        Entities ({entities.length})
+      </button>
+    );
+  }
+
+  return (
+    <aside className="hidden xl:flex fixed right-4 top-20 z-10 w-64 max-h-[70vh] flex-col bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <div className="flex items-center gap-1.5 text-xs font-semibold text-gray-800">
+          <Users size={14} className="text-[#6CA0D6]" />
+          In these documents
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="text-gray-400 hover:text-gray-600 cursor-pointer"
+          aria-label="Close entity panel"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex gap-1 px-3 pt-2">
+        {(Object.keys(ENTITY_TYPE_LABELS) as EntityType[]).map(type => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => setActiveType(type)}
+            className={`h-6 px-2 rounded-full text-[11px] font-medium border transition-colors cursor-pointer ${
+              activeType === type
+                ? 'bg-[#6CA0D6] border-[#6CA0D6] text-white'
+                : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {ENTITY_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+      <ul className="flex-1 overflow-y-auto custom-scrollbar px-1 py-2">
+        {visibleEntities.length === 0 ? (
+          <li className="px-2 text-[11px] italic text-gray-500">None found yet.</li>
+        ) : visibleEntities.map(entity => (
+          <li key={`${entity.type}:${entity.name}`}>
+            <button
+              type="button"
+              onClick={() => handleSearch(entity)}
+              disabled={isChatBusy}
+              className="group w-full flex items-center justify-between gap-2 px-2 py-1 rounded-md text-left text-xs text-gray-700 transition-colors hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+              title={`Search for "${entity.name}"`}
+            >
+              <span className="truncate">{entity.name}</span>
+              <span className="flex items-center gap-1 flex-shrink-0 text-[10px] text-gray-500">
+                <Search size={10} className="opacity-0 group-hover:opacity-100 text-blue-500" />
+                {entity.document_count} {entity.document_count === 1 ? 'doc' : 'docs'}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default EntityPanel;
@@ -0,0 +1,91 @@
+import type React from 'react';
+import { FileText, AlertTriangle, CalendarRange } from 'lucide-react';
+import { trackDocumentClick } from './DocumentRegistry';
+import type { SearchToolResult } from '../../shared';
+
+interface TimelineResultsProps {
+  resultData: SearchToolResult;
+  chatStatus: string;
+  conversationId: string;
+}
+
+/**
+ * Component for displaying timeline results as a vertical timeline of date buckets
+ */
+const TimelineResults: React.FC<TimelineResultsProps> = ({
+  resultData,
+  chatStatus,
+  conversationId
+}) => {
+  const buckets = Array.isArray(resultData.buckets) ? resultData.buckets : [];
+
+  // Error result component
+  if (resultData.status === 'error' && buckets.length === 0) {
+    const errorMessage = resultData.message || resultData.error || 'An error occurred building the timeline.';
+    return (
+      <div className="bg-red-50 p-3 border border-red-300 rounded-md text-red-700 flex items-center gap-2 shadow-sm">
+        <AlertTriangle size={14} className="text-red-500 flex-shrink-0" />
+        <span className="text-xs font-medium">Timeline Error: {errorMessage}</span>
+      </div>
+    );
+  }
+
+  const totalDocuments = buckets.reduce((sum, bucket) => sum + (bucket.documents?.length || 0), 0);
+
+  // Results component
+  return (
+    <div className="bg-blue-50/70 p-3 border border-blue-200 rounded-md text-gray-800 shadow-sm">
+      <div className="text-xs font-medium mb-3 text-blue-800 flex items-center gap-1.5">
+        <CalendarRange size={12} className="text-blue-500 flex-shrink-0" />
+        Timeline: {totalDocuments} documents across {buckets.length} {buckets.length === 1 ? 'period' : 'periods'}
+      </div>
+      <ol className="relative border-l-2 border-blue-200 ml-1.5">
+        {buckets.map(bucket => (
+          <li key={bucket.label} className="mb-3 last:mb-0 ml-4">
+            <span className="absolute -left-[7px] mt-0.5 h-3 w-3 rounded-full border-2 border-white bg-[#6CA0D6]" />
+            <div className="text-xs font-semibold text-blue-900">{bucket.label}</div>
+            {bucket.status === 'error' ? (
+              <div className="text-[11px] italic text-red-600 flex items-center gap-1 mt-1">
+                <AlertTriangle size={11} className="flex-shrink-0" />
+                Search failed for this period.
+              </div>
+            ) : bucket.documents.length === 0 ? (
+              <div className="text-[11px] italic text-gray-500 mt-1">No documents found for this period.</div>
+            ) : (
+              <ul className="mt-1 flex flex-col gap-1">
+                {bucket.documents.map(doc => {
+                  const r2Key = doc.file_info?.r2Key;
+                  const title = doc.file_info?.metadata?.title || doc.document_id || 'Unknown Document';
+                  const authored = String(doc.file_info?.metadata?.authored || doc.file_info?.metadata?.date || '').substring(0, 10);
+
+                  return (
+                    <li key={r2Key || doc.document_id} className="flex items-start gap-1.5 text-xs">
+                      <FileText size={12} className={`mt-0.5 flex-shrink-0 ${r2Key ? 'text-blue-500' : 'text-gray-400'}`} />
+                      {r2Key ? (
+                        <a
+                          href={`https://doc-viewer.ramus.network/${r2Key}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={`text-blue-800 ${chatStatus !== 'streaming' ? 'hover:underline' : ''}`}
+                          title={title}
+                          onClick={() => trackDocumentClick(r2Key, conversationId)}
+                        >
+                          {title}
+                        </a>
+                      ) : (
+                        <span className="text-gray-500">{title}</span>
+                      )}
+                      {authored && <span className="text-[10px] text-gray-500 whitespace-nowrap">{authored}</span>}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default TimelineResults;
@@ -8,6 +8,16 @@ export const AUTH_TOKEN_KEY = AUTH_CONFIG.TOKEN_KEY;
 // Retry delay for failed auth checks (in milliseconds)
 const AUTH_RETRY_DELAY = 10000; // 10 seconds
 
+// Mirror the token into a cookie, so the agent's WebSocket connection and requests (which can't set headers) carry it
+const setAuthCookie = (token: string) => {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${AUTH_TOKEN_KEY}=${encodeURIComponent(token)}; path=/; SameSite=Strict${secure}`;
+};
+
+const clearAuthCookie = () => {
+  document.cookie = `${AUTH_TOKEN_KEY}=; path=/; max-age=0; SameSite=Strict`;
+};
+
 interface User {
   email: string;
   name?: string;
@@ -131,6 +141,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         if (response.ok) {
           const userData = await response.json() as User;
           // console.log('User authenticated successfully:', userData.email);
+          setAuthCookie(token);
           setUser(userData);
           setIsAuthenticated(true);
           return true;
@@ -139,6 +150,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           
           // If token is invalid, clear it
           localStorage.removeItem(AUTH_TOKEN_KEY);
+          clearAuthCookie();
           
           setUser(null);
           setIsAuthenticated(false);
@@ -260,6 +272,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const logout = useCallback(() => { // Also wrap logout in useCallback
     // Clear token from localStorage
     localStorage.removeItem(AUTH_TOKEN_KEY);
+    clearAuthCookie();
     
     // Update state
     setUser(null);
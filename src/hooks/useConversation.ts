@@ -1,94 +1,40 @@
 import { useState, useCallback, useEffect } from 'react';
-import { COLLECTION_ID, hashComponents, decodeHashedComponents, generateUserId, generateConversationId } from '../utils/hash';
-import { useAuth } from './useAuth';
-import { AUTH_CONFIG } from '../config';
+import { decodeHashedComponents } from '../utils/hash';
 
 // Session storage key for conversation ID
 const CONVERSATION_ID_KEY = 'historylab_conversation_id';
 
-type ConversationHookReturn = {
-  userId: string;
+export type ConversationHookReturn = {
+  // Empty while a new conversation ID is being issued by the server
   conversationId: string;
-  createNewConversation: () => string;
+  // Set when the server couldn't issue a new conversation ID
+  conversationError: string | null;
+  retryConversation: () => void;
+  createNewConversation: () => Promise<string>;
   urlCopied: boolean;
   shareConversationUrl: () => void;
 };
 
 /**
- * Hook to manage user and conversation IDs
+ * Ask the server for a new conversation ID, signed so it can't be changed to reach another user's conversation
+ * @returns The signed conversation ID
+ */
+async function requestConversationId(): Promise<string> {
+  const response = await fetch(`${window.location.origin}/conversations`, { method: 'POST' });
+  if (!response.ok) {
+    // Sign-in and rate limit errors carry a message to show
+    const body = await response.json().catch(() => null) as { message?: string } | null;
+    throw new Error(body?.message || `Couldn't start a conversation (error ${response.status}). Please try again.`);
+  }
+  const { conversationId } = await response.json() as { conversationId: string };
+  return conversationId;
+}
+
+/**
+ * Hook to manage conversation IDs
  * Handles URL parameters, history API, and sharing functionality
  */
 export function useConversation(): ConversationHookReturn {
-  const { isAuthenticated, user } = useAuth();
-
-  // Get or create userId from token or generate a new one
-  const [userId, setUserId] = useState<string>(() => {
-    // Try to get the authenticated user ID from token - first from localStorage, then sessionStorage
-    let token = localStorage.getItem(AUTH_CONFIG.TOKEN_KEY);
-    if (!token) {
-      token = sessionStorage.getItem(AUTH_CONFIG.TOKEN_KEY);
-    }
-    // console.log("token", token);
-    
-    if (token) {
-      try {
-        // Parse the token data
-        const tokenData = JSON.parse(atob(token));
-        if (tokenData.uuid) {
-          // Use the authenticated user's UUID as userId
-          // console.log("tokenData.uuid", tokenData.uuid);
-          return tokenData.uuid;
-        }
-      } catch (e) {
-        console.error('Error parsing auth token:', e);
-      }
-    }
-    // console.log("Falling back to user ID system");
-    
-    // If not authenticated, fall back to the existing user ID system
-    const userIdCookie = document.cookie.split(';').map(c => c.trim())
-      .find(c => c.startsWith('historylab_user_id='));
-    
-    if (userIdCookie) {
-      // console.log("userIdCookie", userIdCookie);
-      return userIdCookie.split('=')[1];
-    }
-    
-    // If no userId found, generate a new one
-    const newUserId = generateUserId();
-    
-    // Set the cookie (expires in 1 year)
-    const expiryDate = new Date();
-    expiryDate.setFullYear(expiryDate.getFullYear() + 1);
-    document.cookie = `historylab_user_id=${newUserId};expires=${expiryDate.toUTCString()};path=/;SameSite=Strict`;
-    // console.log("newUserId", newUserId);
-    return newUserId;
-  });
-  
-  // Update userId if the authentication state changes
-  useEffect(() => {
-    // When a user logs in, update the userId to match their authenticated ID
-    if (isAuthenticated && user) {
-      // Try to get the authenticated user ID from token - first from localStorage, then sessionStorage
-      let token = localStorage.getItem(AUTH_CONFIG.TOKEN_KEY);
-      if (!token) {
-        token = sessionStorage.getItem(AUTH_CONFIG.TOKEN_KEY);
-      }
-      
-      if (token) {
-        try {
-          // Parse the token data
-          const tokenData = JSON.parse(atob(token));
-          if (tokenData.uuid && tokenData.uuid !== userId) {
-            setUserId(tokenData.uuid);
-          }
-        } catch (e) {
-          console.error('Error parsing auth token:', e);
-        }
-      }
-    }
-  }, [isAuthenticated, userId, user]);
-  
   // State for conversation ID (from URL query parameter, session storage, or newly generated)
   const [conversationId, setConversationId] = useState(() => {
     // Check if there's an ID in the URL query parameter
@@ -130,34 +76,20 @@ export function useConversation(): ConversationHookReturn {
       }
     }
     
-    // Create a new conversation-specific ID if not found in URL or session
-    const newConvoId = generateConversationId();
-    
-    // Hash the components
-    const hashedId = hashComponents(userId, COLLECTION_ID, newConvoId);
-    
-    // Save to session storage
-    sessionStorage.setItem(CONVERSATION_ID_KEY, hashedId);
-    
-    // Update the URL with the new ID as a query parameter
-    const newUrl = new URL(window.location.href);
-    newUrl.searchParams.set('id', hashedId);
-    // Use replaceState so the initial load doesn't create an extra history entry
-    window.history.replaceState({ conversationId: hashedId }, '', newUrl.toString());
-    
-    return hashedId;
+    // If not found in URL or session, a new ID is requested from the server below
+    return '';
   });
   
+  // Error from the last failed request for a new conversation ID
+  const [conversationError, setConversationError] = useState<string | null>(null);
+
   // State for tracking whether the URL has been copied (for share button feedback)
   const [urlCopied, setUrlCopied] = useState(false);
 
   // Function to create a new conversation ID
-  const createNewConversation = useCallback(() => {
-    // Create a new conversation-specific ID
-    const newConvoId = generateConversationId();
-    
-    // Hash the components 
-    const hashedId = hashComponents(userId, COLLECTION_ID, newConvoId);
+  const createNewConversation = useCallback(async () => {
+    // Ask the server for a new signed ID
+    const hashedId = await requestConversationId();
     
     // Update state
     setConversationId(hashedId);
@@ -168,11 +100,32 @@ export function useConversation(): ConversationHookReturn {
     // Update URL
     const newUrl = new URL(window.location.href);
     newUrl.searchParams.set('id', hashedId);
-    // Use pushState here to create a new history entry for the *new* conversation
-    window.history.pushState({ conversationId: hashedId }, '', newUrl.toString());
+    // Use replaceState for the first conversation so the initial load doesn't create an extra history entry,
+    // and pushState afterwards to create a new history entry for the *new* conversation
+    if (window.location.search.includes('id=')) {
+      window.history.pushState({ conversationId: hashedId }, '', newUrl.toString());
+    } else {
+      window.history.replaceState({ conversationId: hashedId }, '', newUrl.toString());
+    }
     
     return hashedId;
-  }, [userId]);
+  }, []);
+
+  // Function to request a conversation ID, keeping the error so it can be shown with a retry button
+  const retryConversation = useCallback(() => {
+    setConversationError(null);
+    createNewConversation().catch(error => {
+      console.error('Error creating conversation:', error);
+      setConversationError(error instanceof Error ? error.message : String(error));
+    });
+  }, [createNewConversation]);
+
+  // Create a conversation when none was found in the URL or session storage
+  useEffect(() => {
+    if (!conversationId) {
+      retryConversation();
+    }
+  }, [conversationId, retryConversation]);
 
   // Function to share current conversation URL
   const shareConversationUrl = useCallback(() => {
@@ -252,22 +205,23 @@ export function useConversation(): ConversationHookReturn {
         } catch (e) {
           console.error('Invalid conversation ID during popstate:', e, targetId);
           // If ID is invalid, create a new one
-          createNewConversation();
+          retryConversation();
         }
       } else if (!targetId) {
          // If no ID is found in URL or state
          // console.log("No valid ID found on popstate, creating new conversation.");
-         createNewConversation();
+         retryConversation();
       }
     };
 
     window.addEventListener('popstate', handlePopState);
     return () => window.removeEventListener('popstate', handlePopState);
-  }, [conversationId, createNewConversation]);
+  }, [conversationId, retryConversation]);
 
   return {
-    userId,
     conversationId,
+    conversationError,
+    retryConversation,
     createNewConversation,
     urlCopied,
     shareConversationUrl
@@ -1,11 +1,118 @@
 // config.ts
 // Configuration values for the server
 
+import { CORPUS_LABELS, CLASSIFICATION_LABELS, DOCUMENT_TYPE_LABELS } from "../shared";
+import type { ChatMode, ModelProvider } from "./types";
+
 // Collection IDs
 export const COLLECTION_ID = '80650a98-fe49-429a-afbd-9dde66e2d02b'; // history-lab-1
 
+// Search configuration
+export const DEFAULT_TOP_K = 5; // Number of results returned when the model doesn't ask for more
+export const MAX_TOP_K = 30; // Server-side ceiling on results per queryCollection call
+export const MAX_SEARCH_DEPTH = 100; // Deepest ranked result reachable by paging with a cursor
+export const MAX_BATCH_QUERIES = 6; // Ceiling on sub-queries per batchQueryCollection call
+export const MAX_RELATED_DATE_WINDOW_MONTHS = 120; // Widest date window findRelatedDocuments accepts around its seed
+export const HYBRID_CANDIDATE_MULTIPLIER = 3; // Semantic candidates fetched per requested result in keyword/hybrid mode
+export const MAX_HYBRID_CANDIDATES = 200; // Ceiling on semantic candidates re-ranked in keyword/hybrid mode
+export const HYBRID_RRF_K = 60; // Reciprocal rank fusion constant for combining semantic and keyword ranks
+
+// Search service resilience configuration
+export const SEARCH_TIMEOUT_MS = 15000; // Time allowed for one vector search call before it counts as failed
+export const SEARCH_MAX_RETRIES = 2; // Retries of a vector search after a transient failure
+export const SEARCH_RETRY_BASE_DELAY_MS = 500; // Backoff before the first retry, doubled for each further retry
+export const SEARCH_CIRCUIT_FAILURE_THRESHOLD = 5; // Consecutive failed searches that open the circuit breaker
+export const SEARCH_CIRCUIT_COOLDOWN_MS = 30000; // Time the open circuit short-circuits searches before trying again
+
+// Credit configuration
+export const MONTHLY_CREDIT_ALLOWANCE = 500; // Credits each user receives at the start of every calendar month (UTC)
+export const TOOL_CREDIT_COSTS: Record<string, number> = {
+  queryCollection: 1, // Per search, whatever the number of results
+  batchQueryCollection: 1, // Per sub-query searched
+  findRelatedDocuments: 1, // Per search for related documents
+  buildTimeline: 1, // Per date bucket searched
+  askDocument: 1, // Per search within a document
+  getDocumentText: 2 // Per slice of a document read
+};
+
+// Auth configuration
+export const AUTH_SERVICE_URL = 'https://auth.ramus.network'; // Auth service that issues and verifies user tokens
+export const AUTH_TOKEN_COOKIE = 'hl_id_token'; // Cookie the client mirrors its token into for WebSocket connections
+export const AUTH_VERIFICATION_CACHE_SECONDS = 5 * 60; // How long a token verified by the auth service is trusted without checking again
+export const AUTH_VERIFICATION_CACHE_MAX_ENTRIES = 1000; // Ceiling on verified tokens kept per worker isolate
+
+// Rate limit configuration (fixed windows, counted separately per user ID and per IP address)
+export const RATE_LIMITS = {
+  http: { limit: 60, windowSeconds: 60 }, // Feedback, document click and credit balance requests
+  connect: { limit: 30, windowSeconds: 60 }, // Agent socket connections
+  history: { limit: 60, windowSeconds: 60 }, // Message history requests to the agent
+  chat: { limit: 10, windowSeconds: 60 } // Chat turns, each of which runs the model
+} as const;
+
+// Search cache configuration (one cache per collection, shared by all conversations and users)
+export const SEARCH_CACHE_TTL_SECONDS = 60 * 60; // How long a cached vector search response stays valid
+export const SEARCH_CACHE_MAX_ENTRIES = 5000; // Ceiling on cached responses per collection
+
+// Timeline configuration
+export const DEFAULT_TIMELINE_DOCS_PER_BUCKET = 3; // Documents returned per bucket when the model doesn't ask for more
+export const MAX_TIMELINE_DOCS_PER_BUCKET = 10; // Ceiling on documents returned per bucket
+export const MAX_TIMELINE_BUCKETS = 24; // Ceiling on buckets (and so searches) per buildTimeline call
+
+// Entity index configuration
+export const MAX_ENTITY_INDEX_SIZE = 100; // Entities kept in the conversation's index and synced to the side panel
+export const DEFAULT_ENTITY_LIMIT = 25; // Entities returned by listEntities when the model doesn't ask for more
+
+// Document reading configuration
+export const DOCUMENT_TEXT_WINDOW = 20000; // Characters returned by getDocumentText when no window is given
+export const MAX_DOCUMENT_TEXT_WINDOW = 60000; // Ceiling on characters returned per getDocumentText call
+export const CHUNK_CONTEXT_CHARS = 1000; // Context returned on each side of a chunk read by chunk_id
+export const DEFAULT_DOCUMENT_PASSAGES = 3; // Passages returned by askDocument when the model doesn't ask for more
+export const MAX_DOCUMENT_PASSAGES = 10; // Ceiling on passages returned per askDocument call
+// r2Key prefixes getDocumentText may read even if no search surfaced them (e.g. public reference documents)
+export const APPROVED_DOCUMENT_PREFIXES: string[] = [];
+
 // Model configuration
-export const useGemini = true;
+export const DEFAULT_MODEL_PROVIDER: ModelProvider = 'google'; // Provider tried first unless MODEL_PROVIDER is set; the other is the fallback
+// Model used by each provider for standard and deep research conversations
+export const CHAT_MODELS: Record<ChatMode, Record<ModelProvider, string>> = {
+  standard: { google: 'models/gemini-2.0-flash', openai: 'gpt-4o-2024-11-20' },
+  deep_research: { google: 'models/gemini-2.5-pro-preview-03-25', openai: 'gpt-4.1-2025-04-14' }
+};
+
+// Usage accounting configuration
+// Price in USD per million prompt and completion tokens, by model name without the "models/" prefix
+export const MODEL_PRICING: Record<string, { input: number, output: number }> = {
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.5-pro-preview-03-25': { input: 1.25, output: 10.00 },
+  'gpt-4o-2024-11-20': { input: 2.50, output: 10.00 },
+  'gpt-4.1-2025-04-14': { input: 2.00, output: 8.00 }
+};
+export const DAILY_USAGE_KEY_PREFIX = 'usage'; // CONVERSATION_LOGS keys of daily usage roll-ups: usage-{userId}-{YYYY-MM-DD}
+
+// History compaction configuration
+// Tokens of conversation history sent to each model; older tool results are summarized to stay within it
+export const HISTORY_TOKEN_BUDGETS: Record<string, number> = {
+  'models/gemini-2.0-flash': 100000,
+  'gpt-4o-2024-11-20': 60000,
+  'models/gemini-2.5-pro-preview-03-25': 150000,
+  'gpt-4.1-2025-04-14': 150000
+};
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 60000; // Budget of models not listed above
+export const HISTORY_RECENT_TURNS = 2; // Most recent user turns (with their answers) sent in full
+export const HISTORY_SUMMARY_TEXT_CHARS = 300; // Longest text kept in a summarized tool result or message
+
+// Quote verification configuration
+export const QUOTE_MIN_WORDS = 4; // Shorter quoted phrases (terms, names) aren't checked against their source
+export const QUOTE_CITATION_DISTANCE = 200; // Characters after a quote within which a citation is taken as its source
+export const QUOTE_MATCH_THRESHOLD = 0.8; // Share of a quote's word sequences that must appear in the cited document
+export const MAX_QUOTES_PER_TURN = 20; // Ceiling on quotes checked per assistant reply
+
+/**
+ * Format the allowed values of a search filter for the system prompt
+ */
+function formatFilterValues(labels: Record<string, string>): string {
+  return Object.keys(labels).map(value => `'${value}'`).join(', ');
+}
 
 /**
  * Returns the system prompt used for the AI model
@@ -80,11 +187,94 @@ Date range filtering options (choose ONE approach only - if both are provided, y
   * Reserve for events where the exact day matters (assassinations, military actions, speeches)
   * Or when searching within a very narrow timeframe (specific week or day)
 
-### 2. getDocumentText
-Retrieves document text using:
+- authored_period: A single period resolved server-side: a year ('1973'), decade ('1970s'), month ('March 1962'), quarter ('Q4 1962'), season ('spring 1961', 'winter 1961-62'), part of a year ('late 1975') or a well-known event ('Tet Offensive', 'Cuban Missile Crisis')
+  * The start/end parameters also accept these expressions, e.g. start 'Tet Offensive' and end "Nixon's inauguration"
+  * Results include date_filters showing the exact range searched; mention it when you relied on an event or season
+  * If a search returns an invalid_date or invalid_date_range error, correct the dates as its message explains and search again
+
+Result count:
+- topK: Number of results to return (default ${DEFAULT_TOP_K}, maximum ${MAX_TOP_K})
+  * Leave unset for most searches
+  * Raise to 20-30 only for deep-dive research on a narrow, well-defined topic
+
+Search mode:
+- mode: 'semantic' (default), 'keyword' or 'hybrid'
+  * Use 'keyword' for exact strings that embeddings miss: telegram numbers, cable IDs, code names (e.g., '"MONGOOSE"', '"STATE 123456"')
+  * Put exact strings in double quotes inside the query; unquoted words are matched individually
+  * Use 'hybrid' to boost documents containing the exact terms while keeping semantically related ones
+  * Keyword matching only re-ranks the top ${MAX_HYBRID_CANDIDATES} semantic candidates; there is no full-text index. A keyword search that finds nothing does NOT mean the string isn't in the archive: say so, and try a semantic query describing the document, a date filter or a doc_id filter
+
+Source filters (all optional, each accepts a list):
+- corpus: Restrict to specific collections (${formatFilterValues(CORPUS_LABELS)})
+  * Use when the user names a collection or the topic clearly lives in one (e.g., 'kissinger' for telephone conversations)
+- classification: Restrict by classification level (${formatFilterValues(CLASSIFICATION_LABELS)})
+- doc_type: Restrict by document type (${formatFilterValues(DOCUMENT_TYPE_LABELS)})
+- Only add these when the user asks for them or they clearly apply; they narrow results considerably
+
+Paging:
+- cursor: Pass the next_cursor from a previous result, with the SAME query, mode, filters and topK, to fetch the next page
+  * Use this instead of rephrasing the query when the first page was relevant but not sufficient
+  * Documents already shown in the conversation are left out of later pages
+
+### 2. batchQueryCollection
+Runs up to ${MAX_BATCH_QUERIES} focused sub-queries in parallel and returns one fused, deduplicated list:
+- queries: Array of sub-queries, each with its own query text and optional date filters (same formats as queryCollection)
+- topK (optional): Number of fused documents (default ${DEFAULT_TOP_K * 2}, maximum ${MAX_TOP_K})
+- corpus/classification/doc_type (optional): Source filters applied to every sub-query
+- PREFER THIS when a question breaks down into several independent searches, instead of calling queryCollection repeatedly
+- Each document lists matched_queries (indexes into sub_queries); documents matched by several sub-queries are ranked higher
+
+### 3. findRelatedDocuments
+Finds documents similar to one already returned by queryCollection ("more like this"):
+- r2Key: The r2 key path of the seed document
+- chunk_id (optional): Seed from a specific chunk instead of the document's best matching chunk
+- date_window_months (optional): Only return documents authored within this many months of the seed (maximum ${MAX_RELATED_DATE_WINDOW_MONTHS})
+- topK (optional): Number of related documents (default ${DEFAULT_TOP_K}, maximum ${MAX_TOP_K})
+- Use this to follow a cable thread, find replies, or widen research around a key document
+- Documents already surfaced in the conversation are never returned again
+
+### 4. buildTimeline
+Runs one query across consecutive date buckets and returns the top documents per bucket:
+- query: The semantic search query, run unchanged in every bucket
+- start_year_month / end_year_month: The timeline range (format: 'YYYY-MM')
+- granularity (optional): 'year' (default), 'quarter' or 'month'; at most ${MAX_TIMELINE_BUCKETS} buckets per call
+- docs_per_bucket (optional): Documents per bucket (default ${DEFAULT_TIMELINE_DOCS_PER_BUCKET}, maximum ${MAX_TIMELINE_DOCS_PER_BUCKET})
+- corpus/classification/doc_type (optional): Same source filters as queryCollection
+- USE THIS for chronological questions ("how did the US position on X evolve 1973-1979") instead of repeating queryCollection per period
+- Present findings in chronological order, noting shifts between buckets
+
+### 5. getDocumentText
+Retrieves document text incrementally (about ${DOCUMENT_TEXT_WINDOW} characters per call by default) using:
 - r2Key: The r2 key path of the document. This is provided in the response from the queryCollection tool.
-
-### 3. submitFeedback
+  * Only documents returned by a search in this conversation can be read; never guess or construct an r2Key
+- chunk_id (optional): Read the passage around a chunk returned by queryCollection (its chunks[].id). Best way to check a quote in context.
+- start_page/end_page (optional): Read a page range (1-based)
+- start_char/max_chars (optional): Read a character window. Continue with next_start_char while has_more is true.
+- Every response includes total_chars and total_pages so you can judge how much remains before reading further
+
+### 6. getDocumentMetadata
+Returns a document's title, authored date, classification, corpus, from/to and page count without its text:
+- r2Key: The r2 key path of a document returned by queryCollection
+- Use this for questions about who wrote a document, when, to whom, its classification or its length
+- Check page_count before reading a long document with getDocumentText
+
+### 7. askDocument
+Finds the passages of a single document that best answer a question, with their character offsets:
+- r2Key: The r2 key path of a document returned by queryCollection
+- question: What you want to find out from this document
+- max_passages (optional): Number of passages (default ${DEFAULT_DOCUMENT_PASSAGES}, maximum ${MAX_DOCUMENT_PASSAGES})
+- PREFER THIS over getDocumentText for long documents when you need specific facts or quotes
+- Quote passages verbatim; their start_char can be passed to getDocumentText to read the surrounding text
+
+### 8. listEntities
+Lists the people, organizations and places mentioned in documents surfaced so far in this conversation:
+- type (optional): 'person', 'organization' or 'place'
+- name_contains (optional): Only entities whose name contains this text
+- limit (optional): Number of entities (default ${DEFAULT_ENTITY_LIMIT}, maximum ${MAX_ENTITY_INDEX_SIZE})
+- Use it to discover who appears in the archive on a topic, then search for those names to deepen research
+- Entities are extracted automatically and may contain mistakes; verify names against the documents before relying on them
+
+### 9. submitFeedback
 For technical issues and user feedback:
 - description: Include (1) specific issue, (2) conversation context, and (3) impact on research
 - If user rejects feedback submission, ask why without treating it as an error
@@ -104,6 +294,7 @@ For topics with multiple concepts, people, or events, always use separate search
 - ❌ "Eisenhower and Kennedy on Cuba" → Too broad
 - ✅ Search 1: "Eisenhower administration policy position Cuba relations"
 - ✅ Search 2: "Kennedy administration approach Cuba policy missile crisis"
+- Run independent searches like these together as sub-queries of one batchQueryCollection call
 
 ### 3. THINK BEFORE SEARCHING
 Briefly explain your understanding of the question and relevant historical context.
@@ -191,7 +382,13 @@ When users provide vague or general topics:
 
 ## 🔄 ERROR HANDLING WORKFLOW
 
-If a search returns an error:
+If a search returns a search_unavailable or search_timeout error, the search service is having trouble and the search has already been retried. Don't change the query or filters; tell the user the service is temporarily unavailable and suggest trying again in a minute.
+
+If a tool returns a quota_exceeded error, the user has run out of credits for the month. Don't retry the tool or try other tools to work around it; answer from the documents already retrieved and tell the user when their credits reset.
+
+In long conversations, tool results from earlier turns may be marked summarized: true, with chunk texts and long passages cut short. Their document IDs, r2Keys and chunk IDs are still valid for citations; read a document again with getDocumentText or askDocument if you need text that was cut.
+
+If a search returns any other error:
 1. **If using date filters**: 
    - First try with narrower date range
    - If still failing, remove date filter completely
@@ -203,11 +400,13 @@ If a search returns an error:
 
 - Use markdown formatting
 - Clearly mark direct quotes with quotation marks and citation
+- Quote documents verbatim. Quotes are checked against the text of the document cited after them, and quotes not found in it are highlighted to the researcher as unverified
 - State explicitly when information isn't found
 - Cite sources using the special citation format:
   - {{cite:r2Key}} - Just include the r2Key path as the only parameter. The r2Key is a path {user_id}/{collection_id}/{file_id}/{document_id}.txt. YOU MUST INCLUDE THE FULL PATH.
   - Example: {{cite:0000000001/80650a98-fe49-429a-afbd-9dde66e2d02b/7972a973-0a5a-4358-91af-b63a6e39a63d/Clinton-16686_clinton.txt}}
   - This will be automatically converted to a numbered footnote in the UI
+  - Only cite r2Keys returned by a tool in this conversation. Citations of any other document are flagged to the researcher as unverified
 
 ## 📋 STANDARDIZED DOCUMENT ANALYSIS & PRESENTATION
 
@@ -0,0 +1,51 @@
+// handlers/conversation-handler.ts
+// Handlers for conversation-related endpoints
+
+import type { Env } from "../types";
+import { COLLECTION_ID } from "../config";
+import { encodeHashedComponents, generateConversationId } from "../utils/hash-utils";
+import { getAuthToken, verifyAuthToken } from "../utils/auth-utils";
+import { corsHeaders } from "../middleware/cors";
+import { logError, logInfo } from "../../shared";
+
+/**
+ * Handles the new conversation endpoint, issuing a signed conversation ID to the signed-in user
+ * @param request The incoming request, authenticated with the auth token
+ * @param env The environment variables
+ * @returns A Response object
+ */
+export async function handleCreateConversation(request: Request, env: Env): Promise<Response> {
+  if (request.method !== 'POST') {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: corsHeaders()
+    });
+  }
+
+  try {
+    const token = getAuthToken(request);
+    const user = token ? await verifyAuthToken(token, env) : null;
+    if (!user) {
+      logInfo("handleCreateConversation", "Rejected new conversation request without a valid auth token");
+      return new Response(JSON.stringify({ error: "unauthorized", message: "Sign in to continue." }), {
+        status: 401,
+        headers: corsHeaders()
+      });
+    }
+
+    const convoId = generateConversationId();
+    const conversationId = await encodeHashedComponents(user.userId, COLLECTION_ID, convoId, env.CONVERSATION_ID_SECRET);
+    logInfo("handleCreateConversation", "Issued conversation ID", { userId: user.userId, convoId });
+
+    return new Response(JSON.stringify({ conversationId }), {
+      status: 200,
+      headers: corsHeaders()
+    });
+  } catch (error) {
+    logError("handleCreateConversation", "Error creating conversation", error);
+    return new Response(JSON.stringify({ error: "Failed to create conversation" }), {
+      status: 500,
+      headers: corsHeaders()
+    });
+  }
+}
@@ -0,0 +1,47 @@
+// handlers/credits-handler.ts
+// Handlers for credit-related endpoints
+
+import type { Env } from "../types";
+import { corsHeaders } from "../middleware/cors";
+import { authorizeConversation } from "../middleware/auth";
+import { logError, logInfo } from "../../shared";
+
+/**
+ * Handles the credit balance endpoint, returning the balance of the user a conversation belongs to
+ * @param request The incoming request, with the conversationId as a query parameter
+ * @param env The environment variables
+ * @returns A Response object
+ */
+export async function handleCreditBalance(request: Request, env: Env): Promise<Response> {
+  try {
+    const conversationId = new URL(request.url).searchParams.get('conversationId');
+    if (!conversationId) {
+      logInfo("handleCreditBalance", "Missing conversationId in credit balance request");
+      return new Response(JSON.stringify({ error: "Missing required parameter: conversationId" }), {
+        status: 400,
+        headers: corsHeaders()
+      });
+    }
+
+    // Only the user the conversation belongs to can see its balance
+    const conversation = await authorizeConversation(request, env, conversationId);
+    if (conversation instanceof Response) {
+      return conversation;
+    }
+
+    const { userId } = conversation;
+    const ledger = env.CREDIT_LEDGER.get(env.CREDIT_LEDGER.idFromName(userId));
+    const balance = await ledger.getBalance();
+
+    return new Response(JSON.stringify({ userId, ...balance }), {
+      status: 200,
+      headers: corsHeaders()
+    });
+  } catch (error) {
+    logError("handleCreditBalance", "Error getting credit balance", error);
+    return new Response(JSON.stringify({ error: "Failed to get credit balance" }), {
+      status: 500,
+      headers: corsHeaders()
+    });
+  }
+}
@@ -2,8 +2,8 @@
 // Handlers for document-related endpoints
 
 import { type Env } from "../types";
-import { decodeHashedComponents } from "../utils/hash-utils";
 import { corsHeaders } from "../middleware/cors";
+import { authorizeConversation } from "../middleware/auth";
 import { logError, logInfo } from "../../shared";
 
 /**
@@ -27,8 +27,13 @@ export async function handleDocumentClick(request: Request, env: Env): Promise<R
       });
     }
 
-    // Decode conversation components
-    const { userId, collectionId, convoId } = decodeHashedComponents(conversationId);
+    // Verify the conversation ID, so a forged one can't reach another user's conversation log
+    const conversation = await authorizeConversation(request, env, conversationId);
+    if (conversation instanceof Response) {
+      return conversation;
+    }
+
+    const { userId, collectionId, convoId } = conversation;
     const logId = `${userId}-${collectionId}-${convoId}`;
 
     // Retrieve the conversation log
@@ -2,8 +2,8 @@
 // Handlers for feedback-related endpoints
 
 import { type Env } from "../types";
-import { decodeHashedComponents } from "../utils/hash-utils";
 import { corsHeaders } from "../middleware/cors";
+import { authorizeConversation } from "../middleware/auth";
 import { logError, logInfo } from "../../shared";
 
 /**
@@ -29,8 +29,13 @@ export async function handleFeedback(request: Request, env: Env): Promise<Respon
       });
     }
 
-    // Decode conversation components
-    const { userId, collectionId, convoId } = decodeHashedComponents(conversationId);
+    // Verify the conversation ID, so a forged one can't reach another user's conversation log
+    const conversation = await authorizeConversation(request, env, conversationId);
+    if (conversation instanceof Response) {
+      return conversation;
+    }
+
+    const { userId, collectionId, convoId } = conversation;
     const logId = `${userId}-${collectionId}-${convoId}`;
 
     // Retrieve the conversation log
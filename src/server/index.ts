@@ -6,6 +6,11 @@ import { logError } from "../shared";
 import { handleFeedback } from "./handlers/feedback-handler";
 import { handleDocumentClick } from "./handlers/document-handler";
 import { handleAuthCallback } from "./handlers/auth-handler";
+import { handleCreditBalance } from "./handlers/credits-handler";
+import { handleCreateConversation } from "./handlers/conversation-handler";
+import { checkRateLimit, getRateLimitScope, getRequestIdentities, rateLimitedResponse } from "./middleware/rate-limit";
+import { authorizeAgentRequest } from "./middleware/auth";
+import { corsHeaders } from "./middleware/cors";
 import { routeAgentRequest } from "agents-sdk";
 
 /**
@@ -20,6 +25,24 @@ export default {
       return new Response("pong", { status: 200 });
     }
 
+    // Routes that issue or verify conversation IDs
+    if (["/feedback", "/document-click", "/credits", "/conversations"].includes(url.pathname) || url.pathname.startsWith("/agents/")) {
+      // Conversation IDs can't be issued or verified without their signing secret
+      if (!env.CONVERSATION_ID_SECRET) {
+        logError("fetch", "CONVERSATION_ID_SECRET is not set. Add it to .dev.vars, or run `npx wrangler secret put CONVERSATION_ID_SECRET` before deploying", null);
+        return new Response(JSON.stringify({ error: "server_misconfigured", message: "The server is missing its configuration. Please try again later." }), {
+          status: 500,
+          headers: corsHeaders()
+        });
+      }
+
+      // Limit how fast each user and IP address can call the HTTP routes, open agent connections and poll message history
+      const rateLimit = await checkRateLimit(env, getRateLimitScope(url.pathname), await getRequestIdentities(request, env));
+      if (!rateLimit.allowed) {
+        return rateLimitedResponse(rateLimit);
+      }
+    }
+
     if (url.pathname === "/feedback") {
       return handleFeedback(request, env);
     }
@@ -28,6 +51,14 @@ export default {
       return handleDocumentClick(request, env);
     }
 
+    if (url.pathname === "/credits") {
+      return handleCreditBalance(request, env);
+    }
+
+    if (url.pathname === "/conversations") {
+      return handleCreateConversation(request, env);
+    }
+
     // Handle authentication callback
     if (url.pathname === "/auth-callback") {
       return handleAuthCallback(request, env);
@@ -35,11 +66,18 @@ export default {
 
     return (
         // Route the request to our agent or return 404 if not found
-        (await routeAgentRequest(request, env)) ||
+        // Only the verified owner of a conversation can connect to its agent or read its messages
+        (await routeAgentRequest(request, env, {
+          onBeforeConnect: (agentRequest, lobby) => authorizeAgentRequest(agentRequest, env, lobby.name),
+          onBeforeRequest: (agentRequest, lobby) => authorizeAgentRequest(agentRequest, env, lobby.name)
+        })) ||
         new Response("Not found", { status: 404 })
     );
   },
 };
 
 // Re-export Chat class for use in wrangler.toml as agent
-export { Chat } from "./models/chat"; 
\ No newline at end of file
+export { Chat } from "./models/chat";
+export { CreditLedger } from "./models/credit-ledger";
+export { RateLimiter } from "./models/rate-limiter";
+export { SearchCache } from "./models/search-cache"; 
\ No newline at end of file
@@ -0,0 +1,75 @@
+// middleware/auth.ts
+// Authentication middleware for agent connections and requests
+
+import type { Env } from "../types";
+import { corsHeaders } from "./cors";
+import { getClientIp } from "./rate-limit";
+import { getAuthToken, verifyAuthToken } from "../utils/auth-utils";
+import { type ConversationComponents, verifyHashedComponents } from "../utils/hash-utils";
+import { logInfo } from "../../shared";
+
+// Headers carrying the verified user ID and the client's IP address from the router to the Chat agent
+// Any value sent by the client is replaced, so the agent can trust them
+export const VERIFIED_USER_HEADER = 'X-Verified-User-Id';
+export const VERIFIED_CLIENT_IP_HEADER = 'X-Verified-Client-Ip';
+
+/**
+ * Verify the auth token of a request to an agent, and check that the conversation belongs to the user
+ * @param request The incoming connection or HTTP request
+ * @param env The environment variables
+ * @param agentName The agent instance name, i.e. the hashed conversation ID
+ * @returns The request with the verified user ID and client IP headers, or a 401/403 response rejecting it
+ */
+export async function authorizeAgentRequest(request: Request, env: Env, agentName: string): Promise<Request | Response> {
+  const token = getAuthToken(request);
+  const user = token ? await verifyAuthToken(token, env) : null;
+  if (!user) {
+    logInfo("authorizeAgentRequest", "Rejected agent request without a valid auth token", { agentName });
+    return new Response(JSON.stringify({ error: "unauthorized", message: "Sign in to continue." }), {
+      status: 401,
+      headers: corsHeaders()
+    });
+  }
+
+  // The conversation ID names its user; only that user may open it
+  const components = await verifyHashedComponents(decodeURIComponent(agentName), env.CONVERSATION_ID_SECRET);
+  if (components?.userId !== user.userId) {
+    logInfo("authorizeAgentRequest", "Rejected agent request for another user's conversation", { agentName, userId: user.userId });
+    return new Response(JSON.stringify({ error: "forbidden", message: "This conversation belongs to another user." }), {
+      status: 403,
+      headers: corsHeaders()
+    });
+  }
+
+  const authorized = new Request(request);
+  authorized.headers.set(VERIFIED_USER_HEADER, user.userId);
+  authorized.headers.set(VERIFIED_CLIENT_IP_HEADER, getClientIp(request));
+  return authorized;
+}
+
+/**
+ * Verify the conversation ID an HTTP request names and decode its components
+ * Signed IDs are trusted as they are. Legacy unsigned IDs can be forged, so they are only
+ * accepted with a valid auth token from the user they name.
+ * @returns The conversation components, or a 403 response rejecting the request
+ */
+export async function authorizeConversation(request: Request, env: Env, conversationId: string): Promise<ConversationComponents | Response> {
+  const components = await verifyHashedComponents(conversationId, env.CONVERSATION_ID_SECRET);
+  if (components?.signed) {
+    return { userId: components.userId, collectionId: components.collectionId, convoId: components.convoId };
+  }
+
+  if (components) {
+    const token = getAuthToken(request);
+    const user = token ? await verifyAuthToken(token, env) : null;
+    if (user?.userId === components.userId) {
+      return { userId: components.userId, collectionId: components.collectionId, convoId: components.convoId };
+    }
+  }
+
+  logInfo("authorizeConversation", "Rejected request for an invalid or unverified conversation ID", { conversationId, signed: components?.signed });
+  return new Response(JSON.stringify({ error: "forbidden", message: "Invalid conversation ID." }), {
+    status: 403,
+    headers: corsHeaders()
+  });
+}
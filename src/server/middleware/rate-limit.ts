@@ -0,0 +1,109 @@
+// middleware/rate-limit.ts
+// Rate limiting middleware for HTTP routes, agent connections and chat turns
+
+import type { Env, RateLimitResult } from "../types";
+import { RATE_LIMITS } from "../config";
+import { corsHeaders } from "./cors";
+import { verifyHashedComponents } from "../utils/hash-utils";
+import { getAuthToken, verifyAuthToken } from "../utils/auth-utils";
+import { logError, logInfo } from "../../shared";
+
+export type RateLimitScope = keyof typeof RATE_LIMITS;
+
+/**
+ * Get the client's IP address from the headers Cloudflare sets
+ */
+export function getClientIp(request: Request): string {
+  return request.headers.get('CF-Connecting-IP') ||
+    request.headers.get('X-Forwarded-For')?.split(',')[0].trim() ||
+    'unknown';
+}
+
+/**
+ * Get the identities a request is counted against: its IP address and, when known, its user
+ * The user comes from the request's auth token once verified or, without a valid token, from a
+ * conversation ID with a valid signature (in the agent URL, the conversationId query parameter or
+ * the JSON body). User IDs from unsigned or forged conversation IDs aren't trusted; such requests
+ * are counted by IP address only.
+ */
+export async function getRequestIdentities(request: Request, env: Env): Promise<string[]> {
+  const identities = [`ip:${getClientIp(request)}`];
+
+  const token = getAuthToken(request);
+  const user = token ? await verifyAuthToken(token, env) : null;
+  if (user) {
+    identities.push(`user:${user.userId}`);
+    return identities;
+  }
+
+  const url = new URL(request.url);
+  let conversationId = url.searchParams.get('conversationId') || undefined;
+  const agentPath = /^\/agents\/[^/]+\/([^/]+)/.exec(url.pathname);
+  if (agentPath) {
+    conversationId = decodeURIComponent(agentPath[1]);
+  }
+  else if (!conversationId && request.method === 'POST') {
+    try {
+      conversationId = ((await request.clone().json()) as { conversationId?: string }).conversationId;
+    } catch {
+      // Requests without a JSON body are counted by IP address only
+    }
+  }
+
+  if (conversationId) {
+    const components = await verifyHashedComponents(conversationId, env.CONVERSATION_ID_SECRET);
+    if (components?.signed && components.userId) identities.push(`user:${components.userId}`);
+  }
+  return identities;
+}
+
+/**
+ * Get the scope an HTTP request or agent connection is counted in
+ * Message history requests poll the agent over HTTP, so they're counted apart from socket connections.
+ */
+export function getRateLimitScope(pathname: string): RateLimitScope {
+  if (!pathname.startsWith("/agents/")) return "http";
+  return pathname.endsWith("/get-messages") ? "history" : "connect";
+}
+
+/**
+ * Count a request against the limit of a scope for each identity
+ * A failing rate limiter doesn't block requests; the error is logged and the request is allowed.
+ * @returns The most restrictive result across the identities
+ */
+export async function checkRateLimit(env: Env, scope: RateLimitScope, identities: string[]): Promise<RateLimitResult> {
+  const { limit, windowSeconds } = RATE_LIMITS[scope];
+
+  try {
+    const results = await Promise.all(identities.map(identity =>
+      env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(identity)).hit(scope, limit, windowSeconds)
+    ));
+
+    const rejected = results.filter(result => !result.allowed);
+    if (rejected.length > 0) {
+      logInfo("checkRateLimit", "Rate limit exceeded", { scope, identities });
+      return { allowed: false, remaining: 0, retryAfterSeconds: Math.max(...rejected.map(result => result.retryAfterSeconds)) };
+    }
+    return { allowed: true, remaining: Math.min(...results.map(result => result.remaining)), retryAfterSeconds: 0 };
+  } catch (error) {
+    logError("checkRateLimit", "Error checking rate limit", error, { scope, identities });
+    return { allowed: true, remaining: limit, retryAfterSeconds: 0 };
+  }
+}
+
+/**
+ * Build the 429 response for a rate limited request
+ */
+export function rateLimitedResponse(result: RateLimitResult): Response {
+  return new Response(JSON.stringify({
+    error: "rate_limited",
+    message: `Too many requests. Try again in ${result.retryAfterSeconds} seconds.`,
+    retry_after: result.retryAfterSeconds
+  }), {
+    status: 429,
+    headers: {
+      ...corsHeaders(),
+      'Retry-After': String(result.retryAfterSeconds)
+    }
+  });
+}
@@ -2,27 +2,53 @@
 // Chat Agent implementation that handles real-time AI chat interactions
 
 import {
-    type Schedule
+    type Schedule,
+    type Connection,
+    type ConnectionContext,
+    type WSMessage
   } from "agents-sdk";
 import { AsyncLocalStorage } from "node:async_hooks";
 import { AIChatAgent } from "agents-sdk/ai-chat-agent";
 import {
   createDataStreamResponse,
+  formatDataStreamPart,
   generateId,
   streamText,
+  type Message,
   type StreamTextOnFinishCallback, 
-  type LanguageModelV1,
 } from "ai";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 
-import { processToolCalls } from "../utils/tool-utils";
-import { logDebug, logInfo, logError } from "../../shared";
-import { type Env, type ConversationLog } from "../types";
+import { processToolCalls, withToolTimings } from "../utils/tool-utils";
+import { logDebug, logInfo, logError, type ChatState } from "../../shared";
+import { type Env, type ConversationLog, type CreditReservation, type DocumentBucket, type QuotaExceededResult, type SearchBackend, type SearchCacheStats, type SearchDocument, type SearchFilters, type SearchResponse, type ToolTiming } from "../types";
 import { tools, executions } from "../../tools";
-import { COLLECTION_ID, useGemini, getSystemPrompt } from "../config";
+import {
+  COLLECTION_ID,
+  DEFAULT_HISTORY_TOKEN_BUDGET,
+  HISTORY_RECENT_TURNS,
+  HISTORY_SUMMARY_TEXT_CHARS,
+  HISTORY_TOKEN_BUDGETS,
+  MAX_ENTITY_INDEX_SIZE,
+  TOOL_CREDIT_COSTS,
+  getSystemPrompt
+} from "../config";
 import { decodeHashedComponents } from "../utils/hash-utils";
+import { getSurfacedDocuments } from "../utils/message-utils";
+import { buildEntityIndex } from "../utils/entity-utils";
+import { compactHistory, type HistoryCompaction } from "../utils/history-utils";
+import { checkResponseCitations, getCitableKeys } from "../utils/citation-utils";
 import { ConversationLogger } from "../services/conversation-logger";
+import { SearchCacheClient } from "../services/search-cache";
+import { SearchServiceClient } from "../services/search-client";
+import { FixtureDocumentBucket, LocalSearchBackend, loadFixtureDocuments } from "../services/local-search-backend";
+import { createChatModel } from "../services/chat-model";
+import { QuoteVerifier } from "../services/quote-verifier";
+import { checkRateLimit } from "../middleware/rate-limit";
+import { VERIFIED_CLIENT_IP_HEADER, VERIFIED_USER_HEADER } from "../middleware/auth";
+import { getBearerToken, verifyAuthToken } from "../utils/auth-utils";
+
+// State kept on each WebSocket connection to the agent, alongside AIChatAgent's own
+type ChatConnectionState = { clientIp?: string | null };
 
 // We use ALS to expose the agent context to the tools
 export const agentContext = new AsyncLocalStorage<Chat>();
@@ -30,22 +56,129 @@ export const agentContext = new AsyncLocalStorage<Chat>();
 /**
  * Chat Agent implementation that handles real-time AI chat interactions
  */
-export class Chat extends AIChatAgent<Env> {
+export class Chat extends AIChatAgent<Env, ChatState> {
   public env: Env;
+  initialState: ChatState = { entities: [] };
   private conversationLogger: ConversationLogger;
+  private searchBackend: SearchBackend;
+  private documentBucket: DocumentBucket;
+  private searchCache: SearchCacheClient;
+  // Search cache hits and misses during the current turn, reported in the conversation log
+  private searchCacheStats: SearchCacheStats = { hits: 0, misses: 0, byTool: {} };
+  // How long each tool call of the current turn took, reported in the conversation log
+  private toolTimings: ToolTiming[] = [];
+  // Documents surfaced by search tools during the current turn, before they are saved to this.messages
+  private turnDocuments: SearchDocument[] = [];
+  // Data the client sent with the chat request being answered: its auth header and chat options
+  private chatRequestData: { headers?: { Authorization?: string }, deepResearch?: boolean } | null = null;
+  // IP address of the connection that sent the chat request being answered, verified by the router
+  private chatClientIp: string | null = null;
 
   constructor(state: DurableObjectState, env: Env, name?: string) {
     super(state, env);
     this.env = env;
     this.conversationLogger = new ConversationLogger(env.CONVERSATION_LOGS);
+    // The local backend serves the fixture documents' text too, so document tools work without R2
+    const fixtures = env.SEARCH_BACKEND === "local" ? loadFixtureDocuments() : null;
+    this.searchBackend = fixtures
+      ? new LocalSearchBackend(fixtures)
+      : new SearchServiceClient(env.VECTORIZE_SEARCH);
+    this.documentBucket = fixtures ? new FixtureDocumentBucket(fixtures) : env.BUCKET;
+    this.searchCache = new SearchCacheClient(env.SEARCH_CACHE);
   }
 
-  public getBucket() {
-    return this.env.BUCKET;
+  public getBucket(): DocumentBucket {
+    return this.documentBucket;
   }
 
   public getVectorizeSearch() {
-    return this.env.VECTORIZE_SEARCH;
+    return this.searchBackend;
+  }
+
+  /**
+   * Run a vector search, answering identical searches from the cache while they are fresh
+   * Only successful responses are cached; failures come back with a search error code
+   * @param toolName The tool running the search, under which cache hits and misses are counted
+   */
+  public async searchCollection(toolName: string, query: string, collectionId: string, topK: number, filters?: SearchFilters): Promise<SearchResponse> {
+    const key = await this.searchCache.createKey({ query, collectionId, topK, filters });
+    const cached = await this.searchCache.get(collectionId, key);
+    const byTool = this.searchCacheStats.byTool || {};
+    const toolStats = byTool[toolName] || { hits: 0, misses: 0 };
+    this.searchCacheStats.byTool = { ...byTool, [toolName]: toolStats };
+    if (cached) {
+      this.searchCacheStats.hits++;
+      toolStats.hits++;
+      logDebug("Chat.searchCollection", "Search cache hit", { toolName, query, topK });
+      return cached;
+    }
+
+    this.searchCacheStats.misses++;
+    toolStats.misses++;
+    const results = await this.searchBackend.findSimilarEmbeddings(query, collectionId, topK, filters);
+    if (results && !results.error && results.status !== 'error' && Array.isArray(results.documents)) {
+      await this.searchCache.set(collectionId, key, results);
+    }
+    return results;
+  }
+
+  /**
+   * Reserve the credits a tool run can use, debiting them from the user's balance
+   * Checking the balance and debiting it is a single ledger call, so parallel tool calls can't
+   * overspend; credits for work that fails or doesn't run are given back with refundCredits.
+   * The ledger failing doesn't block the tool; the error is logged and nothing is charged.
+   * @param toolName The tool, whose cost per unit is in TOOL_CREDIT_COSTS
+   * @param units The most units of work the run can do, e.g. the sub-queries of a batch search
+   * @returns The reservation, or a quota_exceeded result to return from the tool
+   */
+  public async reserveCredits(toolName: string, units = 1): Promise<CreditReservation | QuotaExceededResult> {
+    const cost = TOOL_CREDIT_COSTS[toolName] ?? 0;
+    const reservation: CreditReservation = { toolName, cost, units, entryId: null };
+    if (cost === 0 || units === 0) return reservation;
+
+    try {
+      const { charged, entryId, balance } = await this.getCreditLedger().charge(cost * units, toolName);
+      if (charged) {
+        logDebug("Chat.reserveCredits", "Charged credits", { toolName, cost, units, balance: balance.balance });
+        return { ...reservation, entryId };
+      }
+
+      logInfo("Chat.reserveCredits", "Credit quota exceeded", { toolName, cost, units, balance: balance.balance });
+      return {
+        status: "error",
+        error: "quota_exceeded",
+        message: `Not enough credits: ${toolName} costs ${cost * units} and ${balance.balance} remain this month. Credits reset on ${balance.resets_at.substring(0, 10)}.`,
+        cost: cost * units,
+        balance: balance.balance,
+        resets_at: balance.resets_at
+      };
+    } catch (error) {
+      logError("Chat.reserveCredits", "Error charging credits", error, { toolName, cost, units });
+      return reservation;
+    }
+  }
+
+  /**
+   * Give back the credits of reserved work that failed or didn't run
+   * @param units The units to refund (defaults to the whole reservation)
+   */
+  public async refundCredits(reservation: CreditReservation, units = reservation.units): Promise<void> {
+    if (reservation.entryId === null || units <= 0) return;
+
+    try {
+      const balance = await this.getCreditLedger().refund(reservation.entryId, reservation.cost * units);
+      logDebug("Chat.refundCredits", "Refunded credits", { toolName: reservation.toolName, units, balance: balance.balance });
+    } catch (error) {
+      logError("Chat.refundCredits", "Error refunding credits", error, { toolName: reservation.toolName, units });
+    }
+  }
+
+  /**
+   * Get the credit ledger of the user this conversation belongs to
+   */
+  private getCreditLedger() {
+    const { userId } = this.getConversationComponents();
+    return this.env.CREDIT_LEDGER.get(this.env.CREDIT_LEDGER.idFromName(userId));
   }
 
   public getFeedbackKV() {
@@ -53,39 +186,224 @@ export class Chat extends AIChatAgent<Env> {
   }
 
   /**
-   * Handles incoming chat messages and manages the response stream
-   * @param onFinish - Callback function executed when streaming completes
+   * Decode the user, collection and conversation IDs carried in the agent name
+   * Falls back to default values when the name is missing or malformed
    */
-  // biome-ignore lint/complexity/noBannedTypes: <explanation>
-  async onChatMessage(onFinish: StreamTextOnFinishCallback<{}>) {
-    logInfo("Chat.onChatMessage", "Starting chat message processing");
-
-    // Get the hashed ID from the agent name and decode it
+  public getConversationComponents(): { userId: string, collectionId: string, convoId: string } {
     let userId = "unknown";
     let collectionId = COLLECTION_ID;
     let convoId = "unknown";
-    
+
     if (this.name) {
       try {
         const decodedComponents = decodeHashedComponents(this.name);
-        userId = decodedComponents.userId;
-        collectionId = decodedComponents.collectionId;
-        convoId = decodedComponents.convoId;
-        
-        logInfo("Chat.onChatMessage", "Successfully decoded conversation components", { 
+        userId = decodedComponents.userId || userId;
+        collectionId = decodedComponents.collectionId || collectionId;
+        convoId = decodedComponents.convoId || convoId;
+
+        logDebug("Chat.getConversationComponents", "Successfully decoded conversation components", { 
           userId, 
           collectionId, 
           convoId 
         });
       } catch (error) {
-        logInfo("Chat.onChatMessage", "Failed to decode conversation components, using defaults", { 
+        logInfo("Chat.getConversationComponents", "Failed to decode conversation components, using defaults", { 
           error, 
           agentName: this.name 
         });
       }
     } else {
-      logInfo("Chat.onChatMessage", "No agent name provided, using default values");
+      logInfo("Chat.getConversationComponents", "No agent name provided, using default values");
+    }
+
+    return { userId, collectionId, convoId };
+  }
+
+  /**
+   * Record documents surfaced by a search tool during the current turn
+   */
+  public recordSurfacedDocuments(documents: SearchDocument[]) {
+    this.turnDocuments.push(...documents);
+    this.updateEntityIndex();
+  }
+
+  /**
+   * Rebuild the index of people, organizations and places in the surfaced documents
+   * The index is synced to connected clients through the agent state
+   */
+  private updateEntityIndex() {
+    try {
+      const entities = buildEntityIndex(this.getSurfacedDocuments(), MAX_ENTITY_INDEX_SIZE);
+      this.setState({ ...this.state, entities });
+    } catch (error) {
+      logError("Chat.updateEntityIndex", "Failed to update entity index", error);
     }
+  }
+
+  /**
+   * Record in the agent state how the history sent to the model was compacted, so the chat can
+   * mark where the summarized context ends
+   */
+  private updateHistorySummary(compaction: HistoryCompaction | null) {
+    const historySummary = compaction
+      ? { throughMessageId: compaction.throughMessageId, summarizedMessages: compaction.summarizedMessages }
+      : undefined;
+    if (historySummary?.throughMessageId !== this.state.historySummary?.throughMessageId) {
+      this.setState({ ...this.state, historySummary });
+    }
+  }
+
+  /**
+   * Check the quotes in the latest reply against the documents cited after them
+   * The checks are synced to connected clients through the agent state, so the chat can highlight
+   * quotes that weren't found in their sources.
+   * @returns The number of quotes checked and of those not found
+   */
+  private async updateQuoteChecks(): Promise<{ total: number, unverified: number }> {
+    const reply = this.messages[this.messages.length - 1];
+    if (reply?.role !== "assistant") return { total: 0, unverified: 0 };
+
+    try {
+      const text = reply.parts?.flatMap(part => part.type === "text" ? [part.text] : []).join("\n\n") ?? reply.content;
+      const verifier = new QuoteVerifier(this.getBucket(), this.getSurfacedDocuments(), getCitableKeys(this.messages));
+      const checks = await verifier.verifyMessage(text);
+      if (checks.length === 0) return { total: 0, unverified: 0 };
+
+      this.setState({ ...this.state, quoteChecks: { ...this.state.quoteChecks, [reply.id]: checks } });
+      const unverified = checks.filter(check => !check.verified).length;
+      logInfo("Chat.updateQuoteChecks", "Checked quotes against their cited documents", { messageId: reply.id, total: checks.length, unverified });
+      return { total: checks.length, unverified };
+    } catch (error) {
+      logError("Chat.updateQuoteChecks", "Failed to check quotes", error, { messageId: reply.id });
+      return { total: 0, unverified: 0 };
+    }
+  }
+
+  /**
+   * Get every search result document surfaced in this conversation, including the current turn
+   */
+  public getSurfacedDocuments(): SearchDocument[] {
+    return [...getSurfacedDocuments(this.messages), ...this.turnDocuments];
+  }
+
+  /**
+   * Check that a user verified by the router owns this conversation
+   * The first verified user to open the conversation is recorded as its owner.
+   */
+  private async isOwner(userId: string | null): Promise<boolean> {
+    if (!userId) return false;
+
+    const owner = await this.ctx.storage.get<string>("owner");
+    if (!owner) {
+      await this.ctx.storage.put("owner", userId);
+      return true;
+    }
+    return owner === userId;
+  }
+
+  /**
+   * Accept WebSocket connections only from the conversation's owner
+   * The client's IP address is kept in the connection state, which survives hibernation, so its chat
+   * turns can be rate limited by IP address as well as by user.
+   */
+  async onConnect(connection: Connection<ChatConnectionState>, ctx: ConnectionContext) {
+    const userId = ctx.request.headers.get(VERIFIED_USER_HEADER);
+    if (!(await this.isOwner(userId))) {
+      logInfo("Chat.onConnect", "Rejected connection from a user who doesn't own the conversation", { userId });
+      connection.close(4003, "Forbidden");
+      return;
+    }
+    connection.setState({ ...connection.state, clientIp: ctx.request.headers.get(VERIFIED_CLIENT_IP_HEADER) });
+    return super.onConnect(connection, ctx);
+  }
+
+  /**
+   * Serve HTTP requests (e.g. the message history) only to the conversation's owner
+   */
+  async onRequest(request: Request): Promise<Response> {
+    const userId = request.headers.get(VERIFIED_USER_HEADER);
+    if (!(await this.isOwner(userId))) {
+      logInfo("Chat.onRequest", "Rejected request from a user who doesn't own the conversation", { userId });
+      return new Response(JSON.stringify({ error: "forbidden", message: "This conversation belongs to another user." }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    return super.onRequest(request);
+  }
+
+  /**
+   * Keep the data sent with a chat request (the auth token and chat options) and the IP address of its
+   * connection, so onChatMessage can use them
+   */
+  async onMessage(connection: Connection<ChatConnectionState>, message: WSMessage) {
+    if (typeof message === "string") {
+      try {
+        const data = JSON.parse(message);
+        if (data.type === "cf_agent_use_chat_request") {
+          const body = JSON.parse(data.init?.body || "{}");
+          this.chatRequestData = body.data || null;
+          this.chatClientIp = connection.state?.clientIp || null;
+        }
+      } catch {
+        // Messages that aren't chat requests don't carry a token
+      }
+    }
+    return super.onMessage(connection, message);
+  }
+
+  /**
+   * Verify the auth token of the chat request being answered
+   * @returns Whether the token belongs to the user who owns this conversation
+   */
+  private async isAuthorizedTurn(userId: string): Promise<boolean> {
+    const token = getBearerToken(this.chatRequestData?.headers?.Authorization);
+    const user = token ? await verifyAuthToken(token, this.env) : null;
+    if (!user || user.userId !== userId) {
+      logInfo("Chat.isAuthorizedTurn", "Chat turn without a valid auth token for the conversation's user", { userId, verifiedUserId: user?.userId });
+      return false;
+    }
+    return this.isOwner(user.userId);
+  }
+
+  /**
+   * Save an assistant message the model didn't write to the conversation history
+   * Uses AIChatAgent's message table directly, since its own persistence only runs from the
+   * onFinish callback of a model stream.
+   */
+  private saveAssistantMessage(text: string): Message {
+    const message: Message = { id: generateId(), role: "assistant", content: text, createdAt: new Date(), parts: [{ type: "text", text }] };
+    this.sql`insert into cf_ai_chat_agent_messages (id, message) values (${message.id}, ${JSON.stringify(message)})`;
+    this.messages = [...this.messages, message];
+    return message;
+  }
+
+  /**
+   * Answer a chat turn with a fixed assistant message instead of running the model
+   * The message is saved like any other reply, so it stays in the conversation history, and is
+   * streamed under the same ID.
+   */
+  private replyWithMessage(text: string): Response {
+    const message = this.saveAssistantMessage(text);
+    return createDataStreamResponse({
+      execute: async (dataStream) => {
+        dataStream.write(formatDataStreamPart("start_step", { messageId: message.id }));
+        dataStream.write(formatDataStreamPart("text", text));
+        dataStream.write(formatDataStreamPart("finish_message", { finishReason: "stop" }));
+      }
+    });
+  }
+
+  /**
+   * Handles incoming chat messages and manages the response stream
+   * @param onFinish - Callback function executed when streaming completes
+   */
+  // biome-ignore lint/complexity/noBannedTypes: <explanation>
+  async onChatMessage(onFinish: StreamTextOnFinishCallback<{}>) {
+    logInfo("Chat.onChatMessage", "Starting chat message processing");
+
+    // Get the hashed ID from the agent name and decode it
+    const { userId, collectionId, convoId } = this.getConversationComponents();
   
     logInfo("Chat.onChatMessage", "Connection info", { 
       userId, 
@@ -93,9 +411,35 @@ export class Chat extends AIChatAgent<Env> {
       convoId 
     });  
 
+    // Only the signed-in user the conversation belongs to can run a turn
+    if (!(await this.isAuthorizedTurn(userId))) {
+      return this.replyWithMessage("Your sign-in has expired or couldn't be verified. Please sign in again and resend your question.");
+    }
+
+    // Answer with an explanation instead of running the model when the user or their IP address is sending too fast
+    const identities = this.chatClientIp ? [`user:${userId}`, `ip:${this.chatClientIp}`] : [`user:${userId}`];
+    const rateLimit = await checkRateLimit(this.env, "chat", identities);
+    if (!rateLimit.allowed) {
+      const { retryAfterSeconds } = rateLimit;
+      logInfo("Chat.onChatMessage", "Chat turn rate limited", { retryAfterSeconds });
+      return this.replyWithMessage(`You're sending messages faster than I can research them. Please wait ${retryAfterSeconds} ${retryAfterSeconds === 1 ? 'second' : 'seconds'} and send your question again.`);
+    }
+
     // Initialize conversation log
     await this.conversationLogger.initConversationLog(userId, collectionId, convoId);
 
+    // Documents from previous turns are now part of this.messages
+    this.turnDocuments = [];
+    this.searchCacheStats = { hits: 0, misses: 0, byTool: {} };
+    this.toolTimings = [];
+    this.updateEntityIndex();
+
+    // The deep research toggle is kept in the agent state, so it applies to the whole conversation
+    const deepResearch = this.chatRequestData?.deepResearch ?? this.state.deepResearch ?? false;
+    if (deepResearch !== this.state.deepResearch) {
+      this.setState({ ...this.state, deepResearch });
+    }
+
     // Create a streaming response that handles both text and tool outputs
     return agentContext.run(this, async () => {
       logDebug("Chat.onChatMessage", "Setting up data stream response");
@@ -111,54 +455,50 @@ export class Chat extends AIChatAgent<Env> {
             executions,
           });
 
-          // Declare model variable that will be set in the conditionals
-          let model;
-
-          if (useGemini) {
-            logInfo("Chat.onChatMessage", "Initializing Gemini client");                              
-            // Initialize Google client with API key from environment
-            const googleAI = createGoogleGenerativeAI({
-              apiKey: this.env.GOOGLE_GENERATIVE_AI_API_KEY
-            });
-            model = googleAI("models/gemini-2.0-flash");
-          } else {
-            logInfo("Chat.onChatMessage", "Initializing OpenAI client");                  
-              
-            // Initialize OpenAI client with API key from environment
-            const openai = createOpenAI({
-              apiKey: this.env.OPENAI_API_KEY,
-            });
-
-            const model_name = "gpt-4o-2024-11-20";
-            // const model_name = "gpt-4o-mini-2024-07-18";
-
-            logDebug("Chat.onChatMessage", "Starting AI stream", { model: model_name });
-            model = openai(model_name);
+          // Use the configured provider's model, falling back to the other provider on rate limits and outages
+          const model = createChatModel(this.env, deepResearch ? "deep_research" : "standard");
+
+          // Summarize older tool results when the history outgrows the smaller budget of the two models
+          const tokenBudget = Math.min(...model.candidates.map(candidate => HISTORY_TOKEN_BUDGETS[candidate.name] ?? DEFAULT_HISTORY_TOKEN_BUDGET));
+          const { messages: history, compaction } = compactHistory(processedMessages, tokenBudget, HISTORY_RECENT_TURNS, HISTORY_SUMMARY_TEXT_CHARS);
+          if (compaction) {
+            logInfo("Chat.onChatMessage", "Compacted conversation history", { tokenBudget, ...compaction });
           }
+          this.updateHistorySummary(compaction);
 
           logDebug("Chat.onChatMessage", "Starting AI stream");
           // Stream the AI response using the model initialized within this scope
           const result = streamText({
-            model: model as LanguageModelV1,
+            model,
             system: getSystemPrompt(),
-            messages: processedMessages,
-            tools,
+            messages: history,
+            tools: withToolTimings(tools, timing => this.toolTimings.push(timing)),
             onError: (error) => {
                 logError("Chat.onChatMessage", "Error in AI stream", error);                
               },
             onFinish: async (event) => {
+              // Flag citations of documents no tool returned before the reply is saved
+              const { messages: responseMessages, citations } = checkResponseCitations(event.response.messages, getCitableKeys(processedMessages));
+              // The callback is typed without tools, so the event's tool calls and results are narrowed to match
+              // biome-ignore lint/complexity/noBannedTypes: matches the onFinish callback type of AIChatAgent
+              const checkedEvent = { ...event, response: { ...event.response, messages: responseMessages } } as Parameters<StreamTextOnFinishCallback<{}>>[0];
+
               // First, call the original onFinish callback if it exists
               if (onFinish) {
-                await onFinish(event as any);                          
+                await onFinish(checkedEvent);
               }
 
+              // Check the quotes of the saved reply against the documents cited after them
+              const quotes = await this.updateQuoteChecks();
+
               // Use the conversation logger to process and log the stream completion
               await this.conversationLogger.processStreamCompletion(
                 event, 
                 this.messages, 
                 userId, 
                 collectionId, 
-                convoId
+                convoId,
+                { searchCache: this.searchCacheStats, model: model.used, toolTimings: this.toolTimings, citations, quotes }
               );
             },
             maxSteps: 10,
@@ -0,0 +1,108 @@
+// models/credit-ledger.ts
+// Durable Object holding the credit ledger of one user
+
+import { DurableObject } from "cloudflare:workers";
+import { MONTHLY_CREDIT_ALLOWANCE } from "../config";
+import type { Env, CreditBalance } from "../types";
+
+/**
+ * Get the calendar month (UTC) a credit period covers, as YYYY-MM
+ */
+function getCurrentPeriod(now = new Date()): string {
+  return now.toISOString().substring(0, 7);
+}
+
+/**
+ * Get when the current credit period ends, as an ISO timestamp
+ */
+function getPeriodEnd(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString();
+}
+
+/**
+ * Credit ledger of one user, addressed by the user ID
+ * Every charge and refund is recorded as a ledger entry; the balance is the monthly allowance less
+ * the net charges made in the current month. Calls to a Durable Object run one at a time, so checking
+ * the balance and recording a charge can't interleave with another charge.
+ */
+export class CreditLedger extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS credit_ledger (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        period TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        refund_of INTEGER
+      )
+    `);
+  }
+
+  /**
+   * Get the balance for the current period
+   */
+  public getBalance(): CreditBalance {
+    const period = getCurrentPeriod();
+    const row = this.ctx.storage.sql
+      .exec<{ spent: number }>("SELECT COALESCE(SUM(amount), 0) AS spent FROM credit_ledger WHERE period = ?", period)
+      .one();
+
+    return {
+      balance: Math.max(0, MONTHLY_CREDIT_ALLOWANCE - row.spent),
+      allowance: MONTHLY_CREDIT_ALLOWANCE,
+      spent: row.spent,
+      period,
+      resets_at: getPeriodEnd()
+    };
+  }
+
+  /**
+   * Charge credits if the balance covers them, checking and debiting in one call
+   * @param amount The number of credits to charge
+   * @param reason What the credits were spent on, e.g. the tool name
+   * @returns Whether the charge was made, its ledger entry ID for refunds, and the balance after it
+   */
+  public charge(amount: number, reason: string): { charged: boolean, entryId: number | null, balance: CreditBalance } {
+    const before = this.getBalance();
+    if (before.balance < amount) {
+      return { charged: false, entryId: null, balance: before };
+    }
+
+    const { id } = this.ctx.storage.sql
+      .exec<{ id: number }>(
+        "INSERT INTO credit_ledger (period, amount, reason, created_at) VALUES (?, ?, ?, ?) RETURNING id",
+        before.period, amount, reason, Date.now()
+      )
+      .one();
+    return { charged: true, entryId: id, balance: this.getBalance() };
+  }
+
+  /**
+   * Give back part or all of a charge, for work that failed or didn't run
+   * The refund is recorded in the charge's period and capped at what hasn't been refunded yet.
+   * @param entryId The ledger entry ID of the charge
+   * @param amount The number of credits to give back
+   * @returns The balance after the refund
+   */
+  public refund(entryId: number, amount: number): CreditBalance {
+    const [charge] = this.ctx.storage.sql
+      .exec<{ period: string, amount: number, reason: string, refunded: number }>(
+        `SELECT period, amount, reason,
+          (SELECT COALESCE(-SUM(amount), 0) FROM credit_ledger WHERE refund_of = charge.id) AS refunded
+        FROM credit_ledger AS charge WHERE id = ? AND refund_of IS NULL`,
+        entryId
+      )
+      .toArray();
+
+    const refundable = charge ? Math.min(amount, charge.amount - charge.refunded) : 0;
+    if (refundable > 0) {
+      this.ctx.storage.sql.exec(
+        "INSERT INTO credit_ledger (period, amount, reason, created_at, refund_of) VALUES (?, ?, ?, ?, ?)",
+        charge.period, -refundable, charge.reason, Date.now(), entryId
+      );
+    }
+    return this.getBalance();
+  }
+}
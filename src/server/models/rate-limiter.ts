@@ -0,0 +1,51 @@
+// models/rate-limiter.ts
+// Durable Object counting requests from one user or IP address in fixed windows
+
+import { DurableObject } from "cloudflare:workers";
+import type { Env, RateLimitResult } from "../types";
+
+/**
+ * Request counters of one identity (a user ID or an IP address), addressed by that identity
+ * Each scope (e.g. chat turns) has its own counter, reset at the start of every window. Calls
+ * to a Durable Object run one at a time, so concurrent requests can't overrun the limit.
+ */
+export class RateLimiter extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_windows (
+        scope TEXT PRIMARY KEY,
+        window_start INTEGER NOT NULL,
+        count INTEGER NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Count a request against a scope's limit
+   * Rejected requests aren't counted, so a client that backs off regains access when the window ends.
+   * @param scope The kind of request being counted
+   * @param limit The number of requests allowed per window
+   * @param windowSeconds The length of the window
+   */
+  public hit(scope: string, limit: number, windowSeconds: number): RateLimitResult {
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+
+    const rows = this.ctx.storage.sql
+      .exec<{ window_start: number, count: number }>("SELECT window_start, count FROM rate_limit_windows WHERE scope = ?", scope)
+      .toArray();
+    const count = rows.length > 0 && rows[0].window_start === windowStart ? rows[0].count : 0;
+
+    if (count >= limit) {
+      return { allowed: false, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000)) };
+    }
+
+    this.ctx.storage.sql.exec(
+      "INSERT OR REPLACE INTO rate_limit_windows (scope, window_start, count) VALUES (?, ?, ?)",
+      scope, windowStart, count + 1
+    );
+    return { allowed: true, remaining: limit - count - 1, retryAfterSeconds: 0 };
+  }
+}
@@ -0,0 +1,54 @@
+// models/search-cache.ts
+// Durable Object caching the vector search responses of one collection
+
+import { DurableObject } from "cloudflare:workers";
+import { SEARCH_CACHE_MAX_ENTRIES, SEARCH_CACHE_TTL_SECONDS } from "../config";
+import type { Env, SearchResponse } from "../types";
+
+/**
+ * Vector search responses of one collection, addressed by the collection ID
+ * Shared by every conversation and user searching the collection, so a search repeated across
+ * turns, conversations or users on a popular topic only reaches the search service once per TTL.
+ */
+export class SearchCache extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS search_cache (
+        key TEXT PRIMARY KEY,
+        response TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Get a cached response if it exists and hasn't expired
+   * @param key The cache key of the search
+   */
+  public get(key: string): SearchResponse | null {
+    const minCreatedAt = Date.now() - SEARCH_CACHE_TTL_SECONDS * 1000;
+    const rows = this.ctx.storage.sql
+      .exec<{ response: string }>("SELECT response FROM search_cache WHERE key = ? AND created_at >= ?", key, minCreatedAt)
+      .toArray();
+    return rows.length > 0 ? JSON.parse(rows[0].response) as SearchResponse : null;
+  }
+
+  /**
+   * Store a response, then drop expired entries and the oldest entries beyond the size limit
+   * @param key The cache key of the search
+   * @param response The search service's response
+   */
+  public set(key: string, response: SearchResponse): void {
+    const now = Date.now();
+    this.ctx.storage.sql.exec(
+      "INSERT OR REPLACE INTO search_cache (key, response, created_at) VALUES (?, ?, ?)",
+      key, JSON.stringify(response), now
+    );
+    this.ctx.storage.sql.exec("DELETE FROM search_cache WHERE created_at < ?", now - SEARCH_CACHE_TTL_SECONDS * 1000);
+    this.ctx.storage.sql.exec(
+      "DELETE FROM search_cache WHERE key NOT IN (SELECT key FROM search_cache ORDER BY created_at DESC LIMIT ?)",
+      SEARCH_CACHE_MAX_ENTRIES
+    );
+  }
+}
@@ -0,0 +1,117 @@
+// services/chat-model.ts
+// Selection of the chat model, falling back to the other provider when the first one fails
+
+import { APICallError, type LanguageModelV1 } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { CHAT_MODELS, DEFAULT_MODEL_PROVIDER } from "../config";
+import type { ChatMode, Env, ModelProvider, TurnModel } from "../types";
+import { logError, logInfo } from "../../shared";
+
+/**
+ * Whether a model call failed in a way another provider may not, i.e. rate limits, outages and
+ * network errors, as opposed to requests the provider rejected as invalid
+ */
+function shouldFallBack(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable || error.statusCode === 429 || (error.statusCode ?? 500) >= 500;
+  }
+  return true;
+}
+
+/**
+ * Language model calling a primary model and, when a call to it fails with a rate limit or
+ * outage, the fallback model from the other provider
+ * Each call (i.e. each step of a turn) tries the primary model first; the model that answered
+ * the most recent call is kept in `used`. Errors after a stream has started aren't retried.
+ */
+export class FallbackLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly provider: string;
+  readonly modelId: string;
+  readonly defaultObjectGenerationMode: LanguageModelV1['defaultObjectGenerationMode'];
+  public used: TurnModel;
+
+  constructor(
+    private primary: { model: LanguageModelV1, turnModel: TurnModel },
+    private fallback: { model: LanguageModelV1, turnModel: TurnModel }
+  ) {
+    this.provider = primary.model.provider;
+    this.modelId = primary.model.modelId;
+    this.defaultObjectGenerationMode = primary.model.defaultObjectGenerationMode;
+    this.used = primary.turnModel;
+  }
+
+  /**
+   * The models a call may be answered by, primary first
+   */
+  public get candidates(): TurnModel[] {
+    return [this.primary.turnModel, this.fallback.turnModel];
+  }
+
+  doGenerate(options: Parameters<LanguageModelV1['doGenerate']>[0]) {
+    return this.call(model => model.doGenerate(options));
+  }
+
+  doStream(options: Parameters<LanguageModelV1['doStream']>[0]) {
+    return this.call(model => model.doStream(options));
+  }
+
+  private async call<T>(run: (model: LanguageModelV1) => PromiseLike<T>): Promise<T> {
+    try {
+      const result = await run(this.primary.model);
+      this.used = this.primary.turnModel;
+      return result;
+    } catch (error) {
+      if (!shouldFallBack(error)) throw error;
+
+      logError("FallbackLanguageModel.call", "Primary model failed, falling back to the other provider", error, {
+        primary: this.primary.turnModel.name,
+        fallback: this.fallback.turnModel.name
+      });
+      const result = await run(this.fallback.model);
+      this.used = this.fallback.turnModel;
+      return result;
+    }
+  }
+}
+
+/**
+ * Create the language model of a provider
+ */
+function createProviderModel(env: Env, provider: ModelProvider, name: string): LanguageModelV1 {
+  if (provider === 'openai') {
+    return createOpenAI({ apiKey: env.OPENAI_API_KEY })(name);
+  }
+  // @ai-sdk/google depends on its own copy of @ai-sdk/provider, whose LanguageModelV1 type is equivalent
+  return createGoogleGenerativeAI({ apiKey: env.GOOGLE_GENERATIVE_AI_API_KEY })(name) as unknown as LanguageModelV1;
+}
+
+/**
+ * Create the chat model for a conversation
+ * The primary provider and its model names come from the environment (MODEL_PROVIDER, MODEL_NAME,
+ * DEEP_RESEARCH_MODEL_NAME), defaulting to CHAT_MODELS; the other provider is the fallback.
+ * @param env The environment variables
+ * @param mode Whether the conversation uses the standard or the deep research model
+ */
+export function createChatModel(env: Env, mode: ChatMode): FallbackLanguageModel {
+  const primaryProvider: ModelProvider = env.MODEL_PROVIDER === 'openai' || env.MODEL_PROVIDER === 'google'
+    ? env.MODEL_PROVIDER
+    : DEFAULT_MODEL_PROVIDER;
+  const fallbackProvider: ModelProvider = primaryProvider === 'google' ? 'openai' : 'google';
+
+  const primaryName = (mode === 'deep_research' ? env.DEEP_RESEARCH_MODEL_NAME : env.MODEL_NAME) || CHAT_MODELS[mode][primaryProvider];
+  const fallbackName = CHAT_MODELS[mode][fallbackProvider];
+
+  logInfo("createChatModel", "Selected chat model", { mode, primary: primaryName, fallback: fallbackName });
+  return new FallbackLanguageModel(
+    {
+      model: createProviderModel(env, primaryProvider, primaryName),
+      turnModel: { provider: primaryProvider, name: primaryName, mode, fallback: false }
+    },
+    {
+      model: createProviderModel(env, fallbackProvider, fallbackName),
+      turnModel: { provider: fallbackProvider, name: fallbackName, mode, fallback: true }
+    }
+  );
+}
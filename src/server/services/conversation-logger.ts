@@ -3,7 +3,9 @@
 
 import { type Message } from "ai";
 import { logDebug, logInfo, logError } from "../../shared";
-import { type ConversationLog } from "../types";
+import { type ConversationLog, type DailyUsage, type TurnModel, type TurnStats, type TurnUsage } from "../types";
+import { DAILY_USAGE_KEY_PREFIX } from "../config";
+import { addSearchCacheStats, addTurnToDailyUsage, addUsage, calculateTurnUsage } from "../utils/usage-utils";
 
 export class ConversationLogger {
   private conversationLog: ConversationLog | null = null;
@@ -57,6 +59,26 @@ export class ConversationLogger {
         input: 0,
         output: 0
       },
+      searchCache: {
+        hits: 0,
+        misses: 0,
+        byTool: {}
+      },
+      turns: [],
+      usage: {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        costUsd: 0
+      },
+      citations: {
+        total: 0,
+        unverified: 0
+      },
+      quotes: {
+        total: 0,
+        unverified: 0
+      },
       messageObjects: [],
       documentClicks: []
     };
@@ -107,7 +129,8 @@ export class ConversationLogger {
     messages: Message[], 
     userId: string, 
     collectionId: string, 
-    convoId: string
+    convoId: string,
+    turnStats: TurnStats = { searchCache: { hits: 0, misses: 0 } }
   ): Promise<void> {
     if (!this.conversationLog) {
       logInfo("ConversationLogger.processStreamCompletion", "No conversation log to update");
@@ -153,13 +176,44 @@ export class ConversationLogger {
     });
     
     // Create log message objects
-    const messageObjects = this.createMessageObjects(lastUserMessage, lastAssistantMessage, lastUserMessageIndex, assistantMessageIndex);
+    const messageObjects = this.createMessageObjects(lastUserMessage, lastAssistantMessage, lastUserMessageIndex, assistantMessageIndex, turnStats.model);
     
     // Calculate character counts
     const { userInputChars, assistantOutputChars } = this.calculateCharacterCounts(lastUserMessage, lastAssistantMessage);
     
     // Check if this query used tool calls
     const queryHadToolCalls = totalToolCalls > 0;
+
+    // Account the tokens the provider reported for each step and their estimated cost
+    const turnUsage = calculateTurnUsage(event.steps, lastAssistantMessage?.id || `msg-${assistantMessageIndex}`, turnStats.model, turnStats.toolTimings || []);
+    const conversationUsage = this.conversationLog.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+
+    // Count citations of documents no tool returned, so the hallucination rate can be tracked
+    const citations = {
+      total: (this.conversationLog.citations?.total || 0) + (turnStats.citations?.total || 0),
+      unverified: (this.conversationLog.citations?.unverified || 0) + (turnStats.citations?.unverified.length || 0)
+    };
+    if (turnStats.citations?.total) {
+      logInfo("ConversationLogger.processStreamCompletion", "Checked citations", {
+        convoId,
+        total: turnStats.citations.total,
+        unverified: turnStats.citations.unverified,
+        hallucinationRate: turnStats.citations.unverified.length / turnStats.citations.total,
+        conversationHallucinationRate: citations.unverified / citations.total
+      });
+    }
+
+    // Add the turn's search cache hits and misses, for every tool that ran a search
+    const searchCache = addSearchCacheStats(this.conversationLog.searchCache, turnStats.searchCache);
+    if (turnStats.searchCache.hits + turnStats.searchCache.misses > 0) {
+      logInfo("ConversationLogger.processStreamCompletion", "Search cache usage", { convoId, ...turnStats.searchCache });
+    }
+
+    // Count quotes not found in the documents cited after them
+    const quotes = {
+      total: (this.conversationLog.quotes?.total || 0) + (turnStats.quotes?.total || 0),
+      unverified: (this.conversationLog.quotes?.unverified || 0) + (turnStats.quotes?.unverified || 0)
+    };
     
     // Update the conversation log with the new stats
     await this.updateConversationLog({
@@ -181,9 +235,16 @@ export class ConversationLogger {
         input: this.conversationLog.characters.input + userInputChars,
         output: this.conversationLog.characters.output + assistantOutputChars
       },
+      searchCache,
+      turns: [...(this.conversationLog.turns || []), turnUsage],
+      usage: { ...addUsage(conversationUsage, turnUsage.usage), costUsd: conversationUsage.costUsd + turnUsage.costUsd },
+      citations,
+      quotes,
       messageObjects: [...(this.conversationLog.messageObjects || []), ...messageObjects]
     });
 
+    await this.recordDailyUsage(userId, this.conversationLog.id, turnUsage);
+
     // Log the messages so we can verify the IDs being captured
     logDebug("ConversationLogger.processStreamCompletion", "Saved message objects", {
       userMsgId: messageObjects[0]?.id,
@@ -196,6 +257,24 @@ export class ConversationLogger {
     });
   }
 
+  /**
+   * Add a turn to the user's usage for the day (UTC), kept in KV next to the conversation logs
+   * Turns finishing at the same moment may overwrite each other's update, which the chat rate
+   * limit makes rare; the conversation logs keep every turn.
+   */
+  private async recordDailyUsage(userId: string, conversationId: string, turnUsage: TurnUsage): Promise<void> {
+    const date = turnUsage.timestamp.substring(0, 10);
+    const key = `${DAILY_USAGE_KEY_PREFIX}-${userId}-${date}`;
+
+    try {
+      const daily = await this.conversationLogsKV.get<DailyUsage>(key, 'json');
+      await this.conversationLogsKV.put(key, JSON.stringify(addTurnToDailyUsage(daily, userId, date, conversationId, turnUsage)));
+      logDebug("ConversationLogger.recordDailyUsage", "Updated daily usage", { key, costUsd: turnUsage.costUsd, tokens: turnUsage.usage.totalTokens });
+    } catch (kvError) {
+      logError("ConversationLogger.recordDailyUsage", "Error updating daily usage in KV", kvError, { key });
+    }
+  }
+
   /**
    * Create message objects for logging from user and assistant messages
    */
@@ -203,7 +282,8 @@ export class ConversationLogger {
     lastUserMessage: Message | undefined, 
     lastAssistantMessage: Message | undefined, 
     lastUserMessageIndex: number, 
-    assistantMessageIndex: number
+    assistantMessageIndex: number,
+    model?: TurnModel
   ): ConversationLog['messageObjects'] {
     // Extract and truncate the user message content for logging
     const userMessageContent = lastUserMessage ? 
@@ -241,7 +321,8 @@ export class ConversationLogger {
       id: lastAssistantMessage.id,
       content: truncatedAssistantMessage,
       timestamp: new Date(lastAssistantMessage.createdAt ?? Date.now()).toISOString(),
-      feedback: null // Initialize feedback as null
+      feedback: null, // Initialize feedback as null
+      model
     } : null;
 
     // Filter out null messages before adding to array
@@ -297,6 +378,7 @@ export class ConversationLogger {
               toolCallId: toolInvocation.toolCallId || '',
               timestamp: new Date().toISOString(),
               query: args.query || '',
+              mode: args.mode || 'semantic',
               userMessageIndex: lastUserMessageIndex, // Link to the user message that triggered this
               userMessageId: lastUserMessage?.id || '', // Store the actual message ID for direct reference
               dateFilters: {
@@ -305,6 +387,11 @@ export class ConversationLogger {
                 authored_start_year_month_day: args.authored_start_year_month_day,
                 authored_end_year_month_day: args.authored_end_year_month_day,
               },
+              metadataFilters: {
+                corpus: args.corpus,
+                classification: args.classification,
+                doc_type: args.doc_type,
+              },
               documentResults: [] // Initialize as empty array
             };
             
@@ -358,7 +445,8 @@ export class ConversationLogger {
         metadata: { // Extract relevant metadata from file_info.metadata
           title: doc.file_info?.metadata?.title || '',
           authored_date: doc.file_info?.metadata?.authored || doc.file_info?.metadata?.date || '', // Check multiple fields for date
-          classification: doc.file_info?.metadata?.classification || ''
+          classification: doc.file_info?.metadata?.classification || '',
+          corpus: doc.file_info?.metadata?.corpus || ''
         }
       };
     });
@@ -0,0 +1,222 @@
+// services/local-search-backend.ts
+// Search backend that indexes local fixture documents, for development and tests without the vector search worker
+/// <reference types="vite/client" />
+
+import { logInfo } from "../../shared";
+import type { DocumentBucket, SearchBackend, SearchDocument, SearchFilters, SearchMetadata, SearchResponse } from "../types";
+
+/**
+ * A document in the fixture folder: its metadata and the text of each chunk
+ */
+export interface FixtureDocument {
+  document_id: string;
+  r2Key: string;
+  metadata: SearchMetadata;
+  chunks: string[];
+}
+
+// A chunk in the index, with its term frequencies and vector length
+interface IndexedChunk {
+  document: FixtureDocument;
+  id: string;
+  text: string;
+  metadata: SearchMetadata;
+  terms: Map<string, number>;
+  norm: number;
+}
+
+// Words too common to say anything about relevance
+const STOP_WORDS = new Set([
+  "the", "and", "for", "that", "this", "with", "from", "was", "were", "are", "has", "have", "had", "not",
+  "but", "its", "his", "her", "their", "they", "which", "who", "what", "about", "into", "than", "then"
+]);
+
+/**
+ * Split text into lowercase terms, dropping stop words and single characters
+ */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Count the occurrences of each term
+ */
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Derive the numeric authored date fields the vector index stores (YYYYMM and YYYYMMDD)
+ */
+function withAuthoredDateFields(metadata: SearchMetadata): SearchMetadata {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(metadata.authored ?? metadata.date ?? ''));
+  if (!match) return metadata;
+  return {
+    ...metadata,
+    authored_year_month: metadata.authored_year_month ?? Number(`${match[1]}${match[2]}`),
+    authored_year_month_day: metadata.authored_year_month_day ?? Number(`${match[1]}${match[2]}${match[3]}`)
+  };
+}
+
+/**
+ * Check a metadata value against one filter condition, using the vector index's operators
+ */
+function matchesCondition(value: SearchMetadata[string], condition: SearchFilters[string]): boolean {
+  if (typeof condition !== 'object') {
+    return value === condition;
+  }
+
+  const isNumber = typeof value === 'number';
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq': return value === operand;
+      case '$in': return Array.isArray(operand) && typeof value === 'string' && operand.includes(value);
+      case '$gte': return isNumber && typeof operand === 'number' && value >= operand;
+      case '$lte': return isNumber && typeof operand === 'number' && value <= operand;
+      default: return false;
+    }
+  });
+}
+
+/**
+ * Load the fixture documents bundled from the fixtures/documents folder
+ * Production builds leave the fixtures out, so there are none outside development and tests
+ */
+export function loadFixtureDocuments(): FixtureDocument[] {
+  if (import.meta.env.PROD) {
+    return [];
+  }
+  const modules = import.meta.glob<FixtureDocument>('../../../fixtures/documents/*.json', { eager: true, import: 'default' });
+  return Object.values(modules);
+}
+
+export class LocalSearchBackend implements SearchBackend {
+  private readonly chunks: IndexedChunk[] = [];
+  // Number of chunks each term appears in, for inverse document frequency
+  private readonly chunkFrequencies = new Map<string, number>();
+
+  constructor(documents: FixtureDocument[] = loadFixtureDocuments()) {
+    for (const document of documents) {
+      const metadata = withAuthoredDateFields(document.metadata);
+      document.chunks.forEach((text, index) => {
+        const terms = countTerms(tokenize(text));
+        for (const term of terms.keys()) {
+          this.chunkFrequencies.set(term, (this.chunkFrequencies.get(term) || 0) + 1);
+        }
+        this.chunks.push({ document, id: `${document.document_id}-chunk-${index}`, text, metadata, terms, norm: 0 });
+      });
+    }
+
+    for (const chunk of this.chunks) {
+      chunk.norm = Math.sqrt([...chunk.terms].reduce((sum, [term, count]) => sum + (count * this.idf(term)) ** 2, 0));
+    }
+
+    logInfo("LocalSearchBackend", `Indexed ${this.chunks.length} chunks from ${documents.length} fixture documents`);
+  }
+
+  /**
+   * Rank fixture chunks by TF-IDF cosine similarity to the queries and group them by document
+   * The collection ID is ignored, since every fixture belongs to the one local collection.
+   * @returns The top documents with their matching chunks, in the vector search worker's result shape
+   */
+  public async findSimilarEmbeddings(
+    queries: string | string[],
+    collection_id: string,
+    topK = 10,
+    filters?: SearchFilters
+  ): Promise<SearchResponse> {
+    const queryVectors = (Array.isArray(queries) ? queries : [queries]).map(query => countTerms(tokenize(query)));
+
+    const scoredChunks = this.chunks
+      .filter(chunk => Object.entries(filters || {}).every(([field, condition]) => matchesCondition(chunk.metadata[field], condition)))
+      .map(chunk => ({ chunk, score: Math.max(...queryVectors.map(vector => this.similarity(vector, chunk))) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const documents = new Map<string, SearchDocument>();
+    for (const { chunk, score } of scoredChunks) {
+      let document = documents.get(chunk.document.document_id);
+      if (!document) {
+        if (documents.size >= topK) continue;
+        document = {
+          document_id: chunk.document.document_id,
+          best_score: score,
+          file_info: { id: chunk.document.document_id, r2Key: chunk.document.r2Key, metadata: chunk.metadata },
+          chunks: []
+        };
+        documents.set(chunk.document.document_id, document);
+      }
+      document.chunks!.push({ id: chunk.id, text: chunk.text, score, metadata: chunk.metadata });
+    }
+
+    const results = [...documents.values()];
+    return {
+      status: "success",
+      documents: results,
+      total_chunks: results.reduce((sum, document) => sum + (document.chunks?.length || 0), 0)
+    };
+  }
+
+  /**
+   * Inverse document frequency of a term across the indexed chunks
+   */
+  private idf(term: string): number {
+    return Math.log(1 + this.chunks.length / (this.chunkFrequencies.get(term) || 1));
+  }
+
+  /**
+   * Cosine similarity between a query's term counts and a chunk
+   */
+  private similarity(query: Map<string, number>, chunk: IndexedChunk): number {
+    let dot = 0;
+    let queryNorm = 0;
+    for (const [term, count] of query) {
+      const weight = count * this.idf(term);
+      queryNorm += weight ** 2;
+      dot += weight * (chunk.terms.get(term) || 0) * this.idf(term);
+    }
+    return dot === 0 ? 0 : dot / (Math.sqrt(queryNorm) * chunk.norm);
+  }
+}
+
+/**
+ * Stand-in for the documents bucket that serves the fixture documents, so getDocumentText, askDocument
+ * and quote verification work with the local search backend
+ * A document's text is its chunks separated by blank lines, and its customMetadata its fixture metadata.
+ */
+export class FixtureDocumentBucket implements DocumentBucket {
+  private readonly documents = new Map<string, FixtureDocument>();
+
+  constructor(documents: FixtureDocument[] = loadFixtureDocuments()) {
+    for (const document of documents) {
+      this.documents.set(document.r2Key, document);
+    }
+  }
+
+  public async get(key: string) {
+    const document = this.documents.get(key);
+    if (!document) return null;
+
+    const text = document.chunks.join('\n\n');
+    return {
+      text: async () => text,
+      json: async <T>() => JSON.parse(text) as T
+    };
+  }
+
+  public async head(key: string) {
+    const document = this.documents.get(key);
+    if (!document) return null;
+
+    const customMetadata = Object.fromEntries(
+      Object.entries(document.metadata)
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([field, value]) => [field, Array.isArray(value) ? value.join(', ') : String(value)])
+    );
+    return { customMetadata };
+  }
+}
@@ -0,0 +1,98 @@
+// services/quote-verifier.ts
+// Service for checking that the quotes in an assistant reply appear in the documents cited after them
+
+import { logDebug, logError, type QuoteCheck } from "../../shared";
+import { MAX_QUOTES_PER_TURN, QUOTE_CITATION_DISTANCE, QUOTE_MATCH_THRESHOLD, QUOTE_MIN_WORDS } from "../config";
+import type { DocumentBucket, SearchDocument } from "../types";
+import { extractCitedQuotes, indexPhrases, scoreQuote } from "../utils/quote-utils";
+
+/**
+ * Checks quotes against the text of their cited documents
+ * Each document is first matched on its title and the chunks surfaced by searches, and only read
+ * from R2 when those don't contain the quote. Documents are indexed once per verifier.
+ */
+export class QuoteVerifier {
+  private chunkIndexes = new Map<string, Set<string>>();
+  private documentIndexes = new Map<string, Promise<Set<string> | null>>();
+
+  /**
+   * @param bucket The bucket holding the document texts
+   * @param documents The search result documents surfaced in the conversation
+   * @param citableKeys The r2Keys returned by tools in the conversation; quotes citing other documents are unverified
+   */
+  constructor(
+    private bucket: DocumentBucket,
+    private documents: SearchDocument[],
+    private citableKeys: Set<string>
+  ) {}
+
+  /**
+   * Check the quotes in a message that are followed by a citation
+   * @param text The message text
+   * @returns A check for each quote, in the order they appear
+   */
+  public async verifyMessage(text: string): Promise<QuoteCheck[]> {
+    const quotes = extractCitedQuotes(text, QUOTE_MIN_WORDS, QUOTE_CITATION_DISTANCE).slice(0, MAX_QUOTES_PER_TURN);
+
+    const checks: QuoteCheck[] = [];
+    for (const { quote, r2Key } of quotes) {
+      checks.push({ quote, r2Key, ...(await this.verifyQuote(quote, r2Key)) });
+    }
+    return checks;
+  }
+
+  /**
+   * Check a quote against the surfaced chunks of its document, then against the document text
+   */
+  private async verifyQuote(quote: string, r2Key: string): Promise<{ verified: boolean, score: number }> {
+    if (!this.citableKeys.has(r2Key)) {
+      return { verified: false, score: 0 };
+    }
+
+    const chunkScore = scoreQuote(quote, this.getChunkIndex(r2Key));
+    if (chunkScore >= QUOTE_MATCH_THRESHOLD) {
+      return { verified: true, score: chunkScore };
+    }
+
+    const documentIndex = await this.getDocumentIndex(r2Key);
+    const score = Math.max(chunkScore, documentIndex ? scoreQuote(quote, documentIndex) : 0);
+    logDebug("QuoteVerifier.verifyQuote", "Checked quote against document text", { r2Key, chunkScore, score });
+    return { verified: score >= QUOTE_MATCH_THRESHOLD, score };
+  }
+
+  /**
+   * Index the title and surfaced chunk texts of a document
+   */
+  private getChunkIndex(r2Key: string): Set<string> {
+    let index = this.chunkIndexes.get(r2Key);
+    if (!index) {
+      const texts = this.documents
+        .filter(doc => doc.file_info?.r2Key === r2Key)
+        .flatMap(doc => [doc.file_info?.metadata?.title || '', ...(doc.chunks || []).map(chunk => chunk.text || '')]);
+      index = indexPhrases(texts.join('\n\n'));
+      this.chunkIndexes.set(r2Key, index);
+    }
+    return index;
+  }
+
+  /**
+   * Index the full text of a document, read from R2
+   * @returns The index, or null if the document can't be read
+   */
+  private getDocumentIndex(r2Key: string): Promise<Set<string> | null> {
+    let index = this.documentIndexes.get(r2Key);
+    if (!index) {
+      index = (async () => {
+        try {
+          const file = await this.bucket.get(r2Key);
+          return file ? indexPhrases(await file.text()) : null;
+        } catch (error) {
+          logError("QuoteVerifier.getDocumentIndex", "Error reading document text", error, { r2Key });
+          return null;
+        }
+      })();
+      this.documentIndexes.set(r2Key, index);
+    }
+    return index;
+  }
+}
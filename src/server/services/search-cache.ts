@@ -0,0 +1,85 @@
+// services/search-cache.ts
+// Service for caching vector search responses across conversations and users, per collection
+
+import { logDebug, logError } from "../../shared";
+import type { SearchCache } from "../models/search-cache";
+import type { SearchFilters, SearchResponse } from "../types";
+
+/**
+ * Parameters that identify a vector search request
+ */
+export interface SearchCacheKeyParams {
+  query: string;
+  collectionId: string;
+  topK: number;
+  filters?: SearchFilters;
+}
+
+/**
+ * Serialize a value with object keys and primitive arrays sorted, so equivalent filters produce the same string
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    const items = value.map(canonicalize);
+    return `[${value.every(item => typeof item !== 'object' || item === null) ? items.sort().join(',') : items.join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Client for the search cache of a collection, held in its SearchCache Durable Object
+ * A failing cache never fails a search: errors are logged and treated as misses.
+ */
+export class SearchCacheClient {
+  constructor(private namespace: DurableObjectNamespace<SearchCache>) {}
+
+  /**
+   * Build the cache key for a search: a hash of the normalized query, filters, collection and result count
+   */
+  public async createKey({ query, collectionId, topK, filters }: SearchCacheKeyParams): Promise<string> {
+    const normalizedQuery = query.trim().toLowerCase().replace(/\s+/g, ' ');
+    const material = canonicalize({ query: normalizedQuery, collectionId, topK, filters: filters || {} });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Get a cached response if it exists and hasn't expired
+   * @param collectionId The collection searched, which picks the cache
+   * @param key The cache key of the search
+   */
+  public async get(collectionId: string, key: string): Promise<SearchResponse | null> {
+    try {
+      return await this.getCache(collectionId).get(key);
+    } catch (error) {
+      logError("SearchCacheClient.get", "Error reading search cache", error, { collectionId, key });
+      return null;
+    }
+  }
+
+  /**
+   * Store a response in the collection's cache
+   * @param collectionId The collection searched, which picks the cache
+   * @param key The cache key of the search
+   * @param response The search service's response
+   */
+  public async set(collectionId: string, key: string, response: SearchResponse): Promise<void> {
+    try {
+      await this.getCache(collectionId).set(key, response);
+      logDebug("SearchCacheClient.set", "Cached search response", { collectionId, key });
+    } catch (error) {
+      logError("SearchCacheClient.set", "Error writing search cache", error, { collectionId, key });
+    }
+  }
+
+  /**
+   * Get the cache Durable Object of a collection
+   */
+  private getCache(collectionId: string) {
+    return this.namespace.get(this.namespace.idFromName(collectionId));
+  }
+}
@@ -0,0 +1,171 @@
+// services/search-client.ts
+// Service wrapping the vector search binding with timeouts, retries and a circuit breaker
+
+import { logInfo, logError, SEARCH_ERROR_MESSAGES, type SearchErrorCode } from "../../shared";
+import {
+  SEARCH_TIMEOUT_MS,
+  SEARCH_MAX_RETRIES,
+  SEARCH_RETRY_BASE_DELAY_MS,
+  SEARCH_CIRCUIT_FAILURE_THRESHOLD,
+  SEARCH_CIRCUIT_COOLDOWN_MS
+} from "../config";
+import type { Env, SearchBackend, SearchFilters, SearchResponse } from "../types";
+
+// Error responses from the search service that are worth retrying
+const TRANSIENT_ERROR_PATTERN = /timeout|timed out|unavailable|overloaded|rate limit|too many|temporar|network|connection|50[234]/i;
+
+/**
+ * Search response returned when a call fails, with an error code the UI can display
+ */
+export interface SearchErrorResponse extends SearchResponse {
+  status: "error";
+  error: SearchErrorCode;
+  message: string;
+  retryable: boolean;
+}
+
+/**
+ * Circuit breaker that stops calls to a failing service until it has had time to recover
+ * Opens after a run of consecutive failures; once the cooldown passes one trial call is let
+ * through, which closes the circuit on success or reopens it on failure.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  /**
+   * Check whether a call may go ahead, reserving the trial call when the cooldown has passed
+   */
+  public allowRequest(): boolean {
+    if (this.openedAt === null) return true;
+    if (Date.now() - this.openedAt < SEARCH_CIRCUIT_COOLDOWN_MS || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  public recordSuccess(): void {
+    if (this.openedAt !== null) {
+      logInfo("CircuitBreaker", "Search service recovered, closing circuit");
+    }
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.trialInFlight || this.consecutiveFailures >= SEARCH_CIRCUIT_FAILURE_THRESHOLD) {
+      if (this.openedAt === null || this.trialInFlight) {
+        logInfo("CircuitBreaker", "Opening circuit for search service", { consecutiveFailures: this.consecutiveFailures });
+      }
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  public isOpen(): boolean {
+    return this.openedAt !== null;
+  }
+
+  /**
+   * Milliseconds until the open circuit lets a trial call through
+   */
+  public getRetryAfterMs(): number {
+    return this.openedAt === null ? 0 : Math.max(0, SEARCH_CIRCUIT_COOLDOWN_MS - (Date.now() - this.openedAt));
+  }
+}
+
+// Shared by every conversation in the isolate, so an outage seen by one short-circuits the others
+const searchCircuitBreaker = new CircuitBreaker();
+
+/**
+ * Build an error response for a failed search
+ */
+function createSearchError(error: SearchErrorCode, retryable: boolean, message?: string): SearchErrorResponse {
+  return { status: "error", error, message: message || SEARCH_ERROR_MESSAGES[error], retryable };
+}
+
+/**
+ * Wait before retrying a call
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class SearchServiceClient implements SearchBackend {
+  private readonly binding: Env['VECTORIZE_SEARCH'];
+
+  constructor(binding: Env['VECTORIZE_SEARCH']) {
+    this.binding = binding;
+  }
+
+  /**
+   * Run a vector search, retrying transient failures with exponential backoff
+   * Never throws: failures come back as error responses with a search_timeout, search_unavailable
+   * or search_failed code.
+   */
+  public async findSimilarEmbeddings(
+    queries: string | string[],
+    collectionId: string,
+    topK?: number,
+    filters?: SearchFilters
+  ): Promise<SearchResponse> {
+    let lastError: SearchErrorResponse = createSearchError("search_failed", false);
+
+    for (let attempt = 0; attempt <= SEARCH_MAX_RETRIES; attempt++) {
+      if (!searchCircuitBreaker.allowRequest()) {
+        logInfo("SearchServiceClient", "Circuit open, skipping search", { retryAfterMs: searchCircuitBreaker.getRetryAfterMs() });
+        return createSearchError("search_unavailable", true);
+      }
+
+      if (attempt > 0) {
+        await delay(SEARCH_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+
+      try {
+        const results = await this.callWithTimeout(queries, collectionId, topK, filters);
+        if (results?.status !== "error" && !results?.error) {
+          searchCircuitBreaker.recordSuccess();
+          return results;
+        }
+        const message = results.message || results.error || "";
+        lastError = createSearchError("search_failed", TRANSIENT_ERROR_PATTERN.test(message), message || undefined);
+      } catch (error) {
+        lastError = error === "timeout"
+          ? createSearchError("search_timeout", true)
+          : createSearchError("search_failed", true, error instanceof Error ? error.message : undefined);
+      }
+
+      logError("SearchServiceClient", `Search attempt ${attempt + 1} failed`, lastError.message, { code: lastError.error, retryable: lastError.retryable });
+      // A non-transient error means the service answered, so it doesn't count towards an outage
+      if (!lastError.retryable) {
+        searchCircuitBreaker.recordSuccess();
+        break;
+      }
+      searchCircuitBreaker.recordFailure();
+    }
+
+    // Retries are exhausted; an outage that opened the circuit is reported as such
+    return searchCircuitBreaker.isOpen() && lastError.error === "search_failed"
+      ? createSearchError("search_unavailable", true)
+      : lastError;
+  }
+
+  /**
+   * Call the binding, rejecting with "timeout" if it doesn't answer in time
+   */
+  private callWithTimeout(
+    queries: string | string[],
+    collectionId: string,
+    topK?: number,
+    filters?: SearchFilters
+  ): Promise<SearchResponse> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject("timeout"), SEARCH_TIMEOUT_MS);
+    });
+    return Promise.race([this.binding.findSimilarEmbeddings(queries, collectionId, topK, filters), timeout])
+      .finally(() => clearTimeout(timer));
+  }
+}
@@ -3,6 +3,9 @@
 
 import { type AgentNamespace } from "agents-sdk";
 import { type Chat } from "./models/chat";
+import type { CreditLedger } from "./models/credit-ledger";
+import type { RateLimiter } from "./models/rate-limiter";
+import type { SearchCache } from "./models/search-cache";
 
 // Environment variables type definition
 export type Env = {
@@ -10,28 +13,200 @@ export type Env = {
   GOOGLE_GENERATIVE_AI_API_KEY: string;
   BUCKET: R2Bucket;
   Chat: AgentNamespace<Chat>;
-  VECTORIZE_SEARCH: {
-    findSimilarEmbeddings(
-      queries: string | string[], 
-      collection_id: string, 
-      topK?: number, 
-      filters?: Record<string, any>
-    ): Promise<{
-      status: string;
-      matches?: Array<{
-        id: string;
-        text: string;
-        score: number;
-        metadata?: Record<string, any>;
-      }>;
-      message?: string;
-      error?: string;
-    }>;
-  }; 
+  VECTORIZE_SEARCH: SearchBackend;
   CONVERSATION_LOGS: KVNamespace;
   FEEDBACK_LOGS: KVNamespace;
+  CREDIT_LEDGER: DurableObjectNamespace<CreditLedger>;
+  RATE_LIMITER: DurableObjectNamespace<RateLimiter>;
+  SEARCH_CACHE: DurableObjectNamespace<SearchCache>;
+  // Set to "local" to search the bundled fixture documents instead of the vector search worker
+  SEARCH_BACKEND?: string;
+  // Shared secret for HS256 auth tokens, standing in for the auth service in local development and tests
+  AUTH_SECRET?: string;
+  // Secret conversation IDs are signed with, so they can't be forged for another user's conversation
+  CONVERSATION_ID_SECRET: string;
+  // Provider tried first ("google" or "openai"), and model names overriding CHAT_MODELS for it
+  MODEL_PROVIDER?: string;
+  MODEL_NAME?: string;
+  DEEP_RESEARCH_MODEL_NAME?: string;
 };
 
+// Providers the chat model can come from
+export type ModelProvider = 'google' | 'openai';
+
+// Standard conversations use a fast model; deep research ones a larger one
+export type ChatMode = 'standard' | 'deep_research';
+
+// The model that answered a chat turn
+export interface TurnModel {
+  provider: ModelProvider;
+  name: string;
+  mode: ChatMode;
+  // Whether the primary provider failed and the other one answered
+  fallback: boolean;
+}
+
+// Search cache hits and misses, in total and by the tool that ran the search
+export interface SearchCacheStats {
+  hits: number;
+  misses: number;
+  byTool?: Record<string, { hits: number, misses: number }>;
+}
+
+// Stats of a chat turn added to the conversation log when it completes
+export interface TurnStats {
+  searchCache: SearchCacheStats;
+  model?: TurnModel;
+  toolTimings?: ToolTiming[];
+  citations?: CitationCheck;
+  // Quotes checked against their cited documents and those not found in them
+  quotes?: { total: number, unverified: number };
+}
+
+// The citations of an assistant turn and those that couldn't be verified
+export interface CitationCheck {
+  total: number;
+  // r2Keys cited without any tool of the conversation having returned them
+  unverified: string[];
+}
+
+// Tokens reported by the model provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// How long a tool call took to run
+export interface ToolTiming {
+  toolName: string;
+  toolCallId: string;
+  durationMs: number;
+}
+
+// Token usage and estimated cost of one chat turn
+export interface TurnUsage {
+  messageId: string;
+  timestamp: string;
+  model?: TurnModel;
+  // Each model call of the turn; a turn with tool calls has one step per round of calls
+  steps: Array<TokenUsage & { modelId: string, costUsd: number | null }>;
+  usage: TokenUsage;
+  // Estimated from MODEL_PRICING; steps by models without a price aren't counted
+  costUsd: number;
+  toolCalls: ToolTiming[];
+}
+
+// Token usage and estimated cost of one user's chat turns on one day (UTC), across conversations
+export interface DailyUsage {
+  userId: string;
+  date: string;
+  turns: number;
+  usage: TokenUsage;
+  costUsd: number;
+  byModel: Record<string, TokenUsage & { costUsd: number }>;
+  toolCalls: {
+    total: number;
+    durationMs: number;
+  };
+  conversations: string[];
+}
+
+// Metadata the vector search worker stores with each document and chunk (title, authored date, corpus, ...)
+export type SearchMetadata = Record<string, string | number | boolean | string[] | null | undefined>;
+
+// Condition on a metadata field of a vector search
+export type SearchFilterCondition = { $eq?: string | number, $in?: string[], $gte?: number, $lte?: number };
+
+// Metadata filters of a vector search, by field: an exact value or a condition
+export type SearchFilters = Record<string, string | number | SearchFilterCondition>;
+
+// Vector search used by the search tools, implemented by the vector search worker's service binding
+// and by the local fixture backend
+export interface SearchBackend {
+  findSimilarEmbeddings(
+    queries: string | string[], 
+    collection_id: string, 
+    topK?: number, 
+    filters?: SearchFilters
+  ): Promise<SearchResponse>;
+}
+
+// Read access to the document texts and their metadata, implemented by the R2 bucket and by the
+// local fixture documents
+export interface DocumentBucket {
+  get(key: string): Promise<{ text(): Promise<string>, json<T>(): Promise<T> } | null>;
+  head(key: string): Promise<{ customMetadata?: Record<string, string> } | null>;
+}
+
+// Document returned by the vector search worker, with its matching chunks
+export interface SearchDocument {
+  document_id: string;
+  best_score: number;
+  file_info?: {
+    id?: string;
+    r2Key?: string;
+    metadata?: SearchMetadata;
+  };
+  chunks?: Array<{
+    id: string;
+    text?: string;
+    score?: number;
+    metadata?: SearchMetadata;
+  }>;
+}
+
+// Response returned by the vector search worker
+export interface SearchResponse {
+  status: string;
+  documents?: SearchDocument[];
+  total_chunks?: number;
+  matches?: Array<{
+    id: string;
+    text: string;
+    score: number;
+    metadata?: SearchMetadata;
+  }>;
+  message?: string;
+  error?: string;
+}
+
+// Credit balance of a user for the current period
+export interface CreditBalance {
+  balance: number;
+  allowance: number;
+  spent: number;
+  period: string;
+  resets_at: string;
+}
+
+// Returned by a tool when the user doesn't have enough credits to run it
+export interface QuotaExceededResult {
+  status: "error";
+  error: "quota_exceeded";
+  message: string;
+  cost: number;
+  balance: number;
+  resets_at: string;
+}
+
+// Credits reserved for a tool run, debited up front and refunded for work that fails or doesn't run
+export interface CreditReservation {
+  toolName: string;
+  // Credits per unit of work, and the units reserved
+  cost: number;
+  units: number;
+  // Ledger entry of the charge, or null if nothing was charged (free tools, or the ledger failed)
+  entryId: number | null;
+}
+
+// Outcome of counting a request against a rate limit
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
 // Type definition for conversation logs
 export interface ConversationLog {
   id: string;
@@ -53,6 +228,7 @@ export interface ConversationLog {
       toolCallId: string;
       timestamp: string;
       query: string;
+      mode?: string;
       userMessageIndex: number;
       userMessageId: string;
       dateFilters?: {
@@ -61,6 +237,11 @@ export interface ConversationLog {
         authored_start_year_month_day?: string;
         authored_end_year_month_day?: string;
       };
+      metadataFilters?: {
+        corpus?: string[];
+        classification?: string[];
+        doc_type?: string[];
+      };
       documentResults?: Array<{
         doc_id: string;
         best_score: number;
@@ -71,6 +252,7 @@ export interface ConversationLog {
           title: string;
           authored_date: string;
           classification: string;
+          corpus?: string;
         };
       }>;
     }>;
@@ -79,6 +261,20 @@ export interface ConversationLog {
     input: number;
     output: number;
   };
+  searchCache?: SearchCacheStats;
+  // Token usage and estimated cost of every turn, and their totals
+  turns?: TurnUsage[];
+  usage?: TokenUsage & { costUsd: number };
+  // Citations written by the assistant and those of documents no tool returned
+  citations?: {
+    total: number;
+    unverified: number;
+  };
+  // Quotes checked against their cited documents and those not found in them
+  quotes?: {
+    total: number;
+    unverified: number;
+  };
   messageObjects: Array<{
     index: number;
     role: 'user' | 'assistant';
@@ -86,6 +282,8 @@ export interface ConversationLog {
     content: string;
     timestamp: string;
     feedback?: 'like' | 'dislike' | null;
+    // Model that wrote an assistant message
+    model?: TurnModel;
   }>;
   documentClicks: Array<{
     r2Key: string;
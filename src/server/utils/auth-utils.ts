@@ -0,0 +1,169 @@
+// utils/auth-utils.ts
+// Utilities for reading and verifying the auth tokens issued by the auth service
+
+import { AUTH_SERVICE_URL, AUTH_TOKEN_COOKIE, AUTH_VERIFICATION_CACHE_MAX_ENTRIES, AUTH_VERIFICATION_CACHE_SECONDS } from "../config";
+import { logError, logInfo } from "../../shared";
+import type { Env } from "../types";
+
+/**
+ * A user whose auth token has been verified
+ */
+export interface VerifiedUser {
+  userId: string;
+  email?: string;
+}
+
+// Claims read from an auth token, or the user returned by the auth service
+interface TokenClaims {
+  uuid?: string;
+  sub?: string;
+  email?: string;
+  exp?: number;
+}
+
+// Tokens recently verified with the auth service, so each chat turn doesn't call it again
+// Kept in insertion order, so the first entry is the oldest
+const verificationCache = new Map<string, { user: VerifiedUser, expiresAt: number }>();
+
+/**
+ * Get a verified user from the cache, deleting the entry if it has expired
+ */
+function getCachedVerification(token: string): VerifiedUser | null {
+  const cached = verificationCache.get(token);
+  if (!cached) return null;
+  if (cached.expiresAt <= Date.now()) {
+    verificationCache.delete(token);
+    return null;
+  }
+  return cached.user;
+}
+
+/**
+ * Cache a verified user, evicting the oldest entries beyond the size limit
+ */
+function cacheVerification(token: string, user: VerifiedUser, expiresAt: number): void {
+  verificationCache.delete(token);
+  verificationCache.set(token, { user, expiresAt });
+  while (verificationCache.size > AUTH_VERIFICATION_CACHE_MAX_ENTRIES) {
+    const oldest = verificationCache.keys().next().value;
+    if (oldest === undefined) break;
+    verificationCache.delete(oldest);
+  }
+}
+
+/**
+ * Decode base64 or base64url text
+ */
+function decodeBase64(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+}
+
+/**
+ * Read the claims of a token without verifying it
+ * Accepts the auth service's base64 JSON tokens and JWTs
+ */
+function decodeTokenClaims(token: string): TokenClaims | null {
+  try {
+    const parts = token.split('.');
+    return JSON.parse(decodeBase64(parts.length === 3 ? parts[1] : token)) as TokenClaims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify an HS256 JWT signed with a shared secret
+ */
+async function verifyJwtSignature(token: string, secret: string): Promise<boolean> {
+  const parts = token.split('.');
+  if (parts.length !== 3) return false;
+
+  try {
+    const header = JSON.parse(decodeBase64(parts[0])) as { alg?: string };
+    if (header.alg !== 'HS256') return false;
+
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+    const signature = Uint8Array.from(decodeBase64(parts[2]), char => char.charCodeAt(0));
+    return await crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(`${parts[0]}.${parts[1]}`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the token from an Authorization header value
+ */
+export function getBearerToken(authorization: string | null | undefined): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(authorization?.trim() || '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Get the auth token of a request: from the Authorization header or, for browser WebSocket
+ * connections and fetches that can't set headers, from the auth cookie
+ */
+export function getAuthToken(request: Request): string | null {
+  const bearer = getBearerToken(request.headers.get('Authorization'));
+  if (bearer) return bearer;
+
+  const cookie = (request.headers.get('Cookie') || '').split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${AUTH_TOKEN_COOKIE}=`));
+  return cookie ? decodeURIComponent(cookie.substring(AUTH_TOKEN_COOKIE.length + 1)) : null;
+}
+
+/**
+ * Verify an auth token and get the user it was issued to
+ * With AUTH_SECRET set (local development and tests), tokens must be HS256 JWTs signed with it, and
+ * the user is read from their claims once the signature is checked. Otherwise the token is checked
+ * with the auth service, the user is read from its response, and successful checks are cached briefly.
+ * @returns The verified user, or null if the token is invalid, expired or can't be checked
+ */
+export async function verifyAuthToken(token: string, env: Env): Promise<VerifiedUser | null> {
+  if (env.AUTH_SECRET && !await verifyJwtSignature(token, env.AUTH_SECRET)) {
+    return null;
+  }
+
+  // Unverified claims are only trusted to reject expired tokens before calling the auth service
+  const claims = decodeTokenClaims(token);
+  if (claims?.exp && claims.exp < Date.now() / 1000) {
+    logInfo("verifyAuthToken", "Auth token expired");
+    return null;
+  }
+
+  if (env.AUTH_SECRET) {
+    const userId = claims?.uuid || claims?.sub;
+    return userId ? { userId, email: claims?.email } : null;
+  }
+
+  const cached = getCachedVerification(token);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const response = await fetch(`${AUTH_SERVICE_URL}/user`, {
+      headers: { 'Accept': 'application/json', 'Authorization': `Bearer ${token}` }
+    });
+    if (!response.ok) {
+      logInfo("verifyAuthToken", "Auth service rejected token", { status: response.status });
+      return null;
+    }
+
+    const profile = await response.json() as TokenClaims;
+    const userId = profile.uuid || profile.sub;
+    if (!userId) {
+      logInfo("verifyAuthToken", "Auth service response has no user ID");
+      return null;
+    }
+
+    const user = { userId, email: profile.email };
+    const expiresAt = Math.min(Date.now() + AUTH_VERIFICATION_CACHE_SECONDS * 1000, claims?.exp ? claims.exp * 1000 : Number.POSITIVE_INFINITY);
+    cacheVerification(token, user, expiresAt);
+    return user;
+  } catch (error) {
+    logError("verifyAuthToken", "Error verifying token with auth service", error);
+    return null;
+  }
+}
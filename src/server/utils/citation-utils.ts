@@ -0,0 +1,121 @@
+// utils/citation-utils.ts
+// Utilities for checking the document citations in assistant messages against the conversation's tool results
+
+import type { Message } from "ai";
+import type { CitationCheck } from "../types";
+
+// Citation markers written by the model: {{cite:r2Key}}
+const CITATION_PATTERN = /{{cite:([^}]+)}}/g;
+
+// Marker that replaces citations of documents no tool returned; this must match the frontend implementation
+export const UNVERIFIED_CITATION_PREFIX = 'cite-unverified';
+
+/**
+ * Collect every r2Key in a tool result, however deeply it is nested
+ * (search result documents, timeline buckets, document text and metadata results)
+ */
+export function collectResultKeys(result: unknown, keys: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(result)) {
+    for (const item of result) {
+      collectResultKeys(item, keys);
+    }
+  } else if (result && typeof result === "object") {
+    for (const [key, value] of Object.entries(result as Record<string, unknown>)) {
+      if (key === "r2Key" && typeof value === "string") {
+        keys.add(value);
+      } else {
+        collectResultKeys(value, keys);
+      }
+    }
+  }
+  return keys;
+}
+
+/**
+ * Collect the r2Keys returned by any tool in the conversation messages
+ * @param messages The conversation messages
+ * @returns The r2Keys the assistant may cite
+ */
+export function getCitableKeys(messages: Message[]): Set<string> {
+  const keys = new Set<string>();
+
+  for (const message of messages) {
+    if (message.role !== 'assistant' || !Array.isArray(message.parts)) continue;
+
+    for (const part of message.parts) {
+      if (part.type === 'tool-invocation' && part.toolInvocation.state === 'result') {
+        collectResultKeys(part.toolInvocation.result, keys);
+      }
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Flag the citations in a text whose r2Key isn't among the citable keys
+ * Unverified citations are rewritten to {{cite-unverified:r2Key}}, which the chat renders as a warning
+ * instead of a link to the document.
+ * @returns The rewritten text and its citations
+ */
+export function flagUnverifiedCitations(text: string, citableKeys: Set<string>): { text: string } & CitationCheck {
+  let total = 0;
+  const unverified: string[] = [];
+
+  const flagged = text.replace(CITATION_PATTERN, (match, r2Key: string) => {
+    total++;
+    const key = r2Key.trim();
+    if (citableKeys.has(key)) return match;
+
+    unverified.push(key);
+    return `{{${UNVERIFIED_CITATION_PREFIX}:${key}}}`;
+  });
+
+  return { text: flagged, total, unverified };
+}
+
+/**
+ * Check the citations in the response messages of a turn
+ * The r2Keys returned by tools in the response count as citable along with those of earlier turns.
+ * @param responseMessages The assistant and tool messages the model produced during the turn
+ * @param citableKeys The r2Keys returned by tools in earlier turns
+ * @returns The response messages with unverified citations flagged, and the citations of the turn
+ */
+export function checkResponseCitations<T extends { role: string, content: unknown }>(
+  responseMessages: T[],
+  citableKeys: Set<string>
+): { messages: T[], citations: CitationCheck } {
+  const keys = new Set(citableKeys);
+  for (const message of responseMessages) {
+    if (message.role !== 'tool' || !Array.isArray(message.content)) continue;
+    for (const part of message.content) {
+      if (part?.type === 'tool-result') {
+        collectResultKeys(part.result, keys);
+      }
+    }
+  }
+
+  const citations: CitationCheck = { total: 0, unverified: [] };
+  const flag = (text: string) => {
+    const checked = flagUnverifiedCitations(text, keys);
+    citations.total += checked.total;
+    citations.unverified.push(...checked.unverified);
+    return checked.text;
+  };
+
+  const messages = responseMessages.map(message => {
+    if (message.role !== 'assistant') return message;
+    if (typeof message.content === 'string') {
+      return { ...message, content: flag(message.content) };
+    }
+    if (Array.isArray(message.content)) {
+      return {
+        ...message,
+        content: message.content.map(part => part?.type === 'text' ? { ...part, text: flag(part.text) } : part)
+      };
+    }
+    return message;
+  });
+
+  return { messages, citations };
+}
@@ -0,0 +1,238 @@
+// utils/date-utils.ts
+// Utilities for validating and resolving the authored date filters of search tools
+
+/**
+ * A resolved date range, as YYYY-MM strings (month precision) or YYYY-MM-DD strings (day precision)
+ */
+export interface DateRange {
+  start: string;
+  end: string;
+  precision: 'month' | 'day';
+}
+
+/**
+ * Authored date parameters accepted by queryCollection
+ */
+export interface DateFilterParams {
+  authored_period?: string;
+  authored_start_year_month?: string;
+  authored_end_year_month?: string;
+  authored_start_year_month_day?: string;
+  authored_end_year_month_day?: string;
+}
+
+/**
+ * Structured error returned when a date can't be resolved or a range is impossible
+ */
+export interface DateFilterError {
+  status: "error";
+  error: "invalid_date" | "invalid_date_range";
+  field?: keyof DateFilterParams;
+  value?: string;
+  message: string;
+}
+
+// Events users commonly refer to by name, with the dates they span
+const NAMED_EVENTS: Array<{ names: string[], start: string, end: string }> = [
+  { names: ["bay of pigs", "bay of pigs invasion"], start: "1961-04-17", end: "1961-04-20" },
+  { names: ["berlin wall construction", "construction of the berlin wall"], start: "1961-08-13", end: "1961-08-13" },
+  { names: ["cuban missile crisis"], start: "1962-10-16", end: "1962-10-28" },
+  { names: ["kennedy assassination", "jfk assassination", "assassination of president kennedy"], start: "1963-11-22", end: "1963-11-22" },
+  { names: ["gulf of tonkin incident", "gulf of tonkin"], start: "1964-08-02", end: "1964-08-07" },
+  { names: ["six day war", "six-day war", "1967 arab-israeli war"], start: "1967-06-05", end: "1967-06-10" },
+  { names: ["tet offensive"], start: "1968-01-30", end: "1968-03-28" },
+  { names: ["prague spring"], start: "1968-01-05", end: "1968-08-21" },
+  { names: ["soviet invasion of czechoslovakia", "invasion of czechoslovakia"], start: "1968-08-20", end: "1968-08-21" },
+  { names: ["nixon's inauguration", "nixon inauguration", "nixon's first inauguration"], start: "1969-01-20", end: "1969-01-20" },
+  { names: ["nixon's visit to china", "nixon visit to china", "nixon in china"], start: "1972-02-21", end: "1972-02-28" },
+  { names: ["watergate break-in", "watergate burglary"], start: "1972-06-17", end: "1972-06-17" },
+  { names: ["paris peace accords"], start: "1973-01-27", end: "1973-01-27" },
+  { names: ["chilean coup", "1973 chilean coup", "pinochet coup"], start: "1973-09-11", end: "1973-09-11" },
+  { names: ["yom kippur war", "october war", "1973 arab-israeli war"], start: "1973-10-06", end: "1973-10-25" },
+  { names: ["1973 oil crisis", "oil embargo", "arab oil embargo"], start: "1973-10-17", end: "1974-03-18" },
+  { names: ["nixon's resignation", "nixon resignation"], start: "1974-08-09", end: "1974-08-09" },
+  { names: ["fall of saigon"], start: "1975-04-30", end: "1975-04-30" },
+  { names: ["helsinki accords", "helsinki final act"], start: "1975-08-01", end: "1975-08-01" },
+  { names: ["camp david accords"], start: "1978-09-17", end: "1978-09-17" },
+  { names: ["iranian revolution"], start: "1978-01-07", end: "1979-02-11" },
+  { names: ["iran hostage crisis"], start: "1979-11-04", end: "1981-01-20" },
+  { names: ["soviet invasion of afghanistan", "invasion of afghanistan"], start: "1979-12-24", end: "1979-12-27" },
+  { names: ["fall of the berlin wall"], start: "1989-11-09", end: "1989-11-09" },
+  { names: ["gulf war", "operation desert storm"], start: "1990-08-02", end: "1991-02-28" },
+  { names: ["dissolution of the soviet union", "collapse of the soviet union"], start: "1991-12-26", end: "1991-12-26" },
+  { names: ["september 11 attacks", "9/11", "september 11"], start: "2001-09-11", end: "2001-09-11" },
+  { names: ["arab spring"], start: "2010-12-17", end: "2012-12-31" }
+];
+
+const MONTH_NAMES = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december"
+];
+
+// Month ranges (1-based) covered by seasons and thirds of a year; winter runs on into the next year
+const SEASON_MONTHS: Record<string, [number, number]> = {
+  winter: [12, 14], spring: [3, 5], summer: [6, 8], fall: [9, 11], autumn: [9, 11]
+};
+const PART_OF_YEAR_MONTHS: Record<string, [number, number]> = {
+  early: [1, 4], mid: [5, 8], late: [9, 12]
+};
+
+/**
+ * Format a year and month (1-based, may overflow either way) as YYYY-MM
+ */
+function formatYearMonth(year: number, month: number): string {
+  const date = new Date(Date.UTC(year, month - 1, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Check that a YYYY-MM-DD string names a real calendar day
+ */
+function isValidDay(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().substring(0, 10) === value;
+}
+
+/**
+ * Get the last day of a YYYY-MM month as YYYY-MM-DD
+ */
+function lastDayOfMonth(yearMonth: string): string {
+  const [year, month] = yearMonth.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().substring(0, 10);
+}
+
+/**
+ * Resolve a date expression into the range it covers
+ * Accepts YYYY-MM-DD, YYYY-MM, YYYY, decades ("1970s"), "Month YYYY", quarters ("Q2 1962"),
+ * seasons ("spring 1961", "winter 1961"), parts of a year ("early 1975") and named events ("Tet Offensive")
+ * @returns The range, or null if the expression isn't recognized or names an impossible date
+ */
+export function resolveDateExpression(expression: string): DateRange | null {
+  const value = expression.trim().toLowerCase().replace(/^(the|in|of)\s+/, '').replace(/\s+/g, ' ');
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return isValidDay(value) ? { start: value, end: value, precision: 'day' } : null;
+  }
+
+  const yearMonth = /^(\d{4})-(\d{2})$/.exec(value);
+  if (yearMonth) {
+    const month = Number(yearMonth[2]);
+    return month >= 1 && month <= 12 ? { start: value, end: value, precision: 'month' } : null;
+  }
+
+  const year = /^(\d{4})$/.exec(value);
+  if (year) {
+    return { start: `${year[1]}-01`, end: `${year[1]}-12`, precision: 'month' };
+  }
+
+  const decade = /^(\d{3})0'?s$/.exec(value);
+  if (decade) {
+    return { start: `${decade[1]}0-01`, end: `${decade[1]}9-12`, precision: 'month' };
+  }
+
+  const namedMonth = /^([a-z]+),? (\d{4})$/.exec(value);
+  if (namedMonth && MONTH_NAMES.includes(namedMonth[1])) {
+    const month = formatYearMonth(Number(namedMonth[2]), MONTH_NAMES.indexOf(namedMonth[1]) + 1);
+    return { start: month, end: month, precision: 'month' };
+  }
+
+  const quarter = /^q([1-4]) (\d{4})$/.exec(value);
+  const yearQuarter = /^(\d{4}) q([1-4])$/.exec(value);
+  if (quarter || yearQuarter) {
+    const quarterNumber = Number(quarter ? quarter[1] : yearQuarter![2]);
+    const quarterYear = Number(quarter ? quarter[2] : yearQuarter![1]);
+    return { start: formatYearMonth(quarterYear, quarterNumber * 3 - 2), end: formatYearMonth(quarterYear, quarterNumber * 3), precision: 'month' };
+  }
+
+  // "winter 1961" and "winter 1961-62" both run from December 1961 through February 1962
+  const season = /^(winter|spring|summer|fall|autumn)(?: of)? (\d{4})(?:[-–/]\d{2,4})?$/.exec(value);
+  if (season) {
+    const [first, last] = SEASON_MONTHS[season[1]];
+    return { start: formatYearMonth(Number(season[2]), first), end: formatYearMonth(Number(season[2]), last), precision: 'month' };
+  }
+
+  const partOfYear = /^(early|mid|late)[- ](\d{4})$/.exec(value);
+  if (partOfYear) {
+    const [first, last] = PART_OF_YEAR_MONTHS[partOfYear[1]];
+    return { start: formatYearMonth(Number(partOfYear[2]), first), end: formatYearMonth(Number(partOfYear[2]), last), precision: 'month' };
+  }
+
+  const eventName = value.replace(/[’]/g, "'");
+  const event = NAMED_EVENTS.find(candidate => candidate.names.includes(eventName));
+  if (event) {
+    return { start: event.start, end: event.end, precision: 'day' };
+  }
+
+  return null;
+}
+
+/**
+ * Convert a range bound to day precision
+ */
+function toDay(value: string, precision: DateRange['precision'], bound: 'start' | 'end'): string {
+  if (precision === 'day') return value;
+  return bound === 'start' ? `${value}-01` : lastDayOfMonth(value);
+}
+
+/**
+ * Validate and resolve the authored date parameters of a search into search filter parameters
+ * Explicit start and end values take precedence over the bounds of authored_period. The result uses
+ * the year-month filters when every bound is month precision, and the year-month-day filters otherwise.
+ * @param params The date parameters as sent by the model
+ * @returns The normalized filter parameters, or a structured error the model can correct from
+ */
+export function normalizeDateFilters(params: DateFilterParams): { filters: Omit<DateFilterParams, 'authored_period'> } | { error: DateFilterError } {
+  const resolveField = (field: keyof DateFilterParams): DateRange | DateFilterError | undefined => {
+    const value = params[field];
+    if (value === undefined || value.trim() === '') return undefined;
+
+    const range = resolveDateExpression(value);
+    if (!range) {
+      return {
+        status: "error",
+        error: "invalid_date",
+        field,
+        value,
+        message: `Could not interpret ${field} "${value}". Use 'YYYY-MM' or 'YYYY-MM-DD' with a real calendar date, a year ('1973'), a season ('spring 1961') or a well-known event ('Tet Offensive').`
+      };
+    }
+    return range;
+  };
+
+  const period = resolveField('authored_period');
+  const start = resolveField('authored_start_year_month_day') ?? resolveField('authored_start_year_month');
+  const end = resolveField('authored_end_year_month_day') ?? resolveField('authored_end_year_month');
+
+  for (const resolved of [period, start, end]) {
+    if (resolved && 'error' in resolved) return { error: resolved };
+  }
+
+  const startRange = (start ?? period) as DateRange | undefined;
+  const endRange = (end ?? period) as DateRange | undefined;
+  if (!startRange && !endRange) {
+    return { filters: {} };
+  }
+
+  // Use the year-month filters only when no bound needs day precision
+  const precision = startRange?.precision === 'day' || endRange?.precision === 'day' ? 'day' : 'month';
+  const startValue = startRange ? (precision === 'day' ? toDay(startRange.start, startRange.precision, 'start') : startRange.start) : undefined;
+  const endValue = endRange ? (precision === 'day' ? toDay(endRange.end, endRange.precision, 'end') : endRange.end) : undefined;
+
+  // Both values share a fixed-width format, so they compare chronologically as strings
+  if (startValue && endValue && startValue > endValue) {
+    return {
+      error: {
+        status: "error",
+        error: "invalid_date_range",
+        message: `The start date (${startValue}) is after the end date (${endValue}). Swap or correct the dates and search again.`
+      }
+    };
+  }
+
+  return {
+    filters: precision === 'day'
+      ? { authored_start_year_month_day: startValue, authored_end_year_month_day: endValue }
+      : { authored_start_year_month: startValue, authored_end_year_month: endValue }
+  };
+}
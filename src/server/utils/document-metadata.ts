@@ -0,0 +1,118 @@
+// utils/document-metadata.ts
+// Utilities for reading document metadata from R2 without loading the document body
+
+import { logError } from "../../shared";
+import type { DocumentBucket } from "../types";
+
+// Sidecar JSON stored next to a document, e.g. frus/1961-63/v10/d1.txt -> frus/1961-63/v10/d1.txt.meta.json
+const SIDECAR_SUFFIX = '.meta.json';
+
+/**
+ * Descriptive metadata for a single document
+ */
+export interface DocumentMetadata {
+  doc_id: string | null;
+  title: string | null;
+  authored_date: string | null;
+  classification: string | null;
+  corpus: string | null;
+  doc_type: string | null;
+  from: string | null;
+  to: string | null;
+  page_count: number | null;
+}
+
+/**
+ * A metadata record as written by the ingestion pipelines, either an R2 object's customMetadata
+ * (string values only) or a sidecar JSON
+ */
+interface RawDocumentMetadata {
+  [field: string]: string | number | boolean | string[] | null | undefined;
+}
+
+/**
+ * Pick the first non-empty value among several candidate field names
+ */
+function pickField(source: RawDocumentMetadata, ...fields: string[]): string | null {
+  for (const field of fields) {
+    const value = source[field];
+    if (Array.isArray(value) && value.length > 0) return value.join(', ');
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value).trim();
+  }
+  return null;
+}
+
+/**
+ * Normalize a loose metadata record into DocumentMetadata
+ * Accepts both snake_case and camelCase keys, since customMetadata and sidecars were written by different pipelines
+ */
+function normalizeMetadata(source: RawDocumentMetadata): DocumentMetadata {
+  const pageCount = Number.parseInt(pickField(source, 'page_count', 'pageCount', 'pages') || '', 10);
+
+  return {
+    doc_id: pickField(source, 'doc_id', 'docId', 'document_id'),
+    title: pickField(source, 'title'),
+    authored_date: pickField(source, 'authored', 'authored_date', 'authoredDate', 'date'),
+    classification: pickField(source, 'classification'),
+    corpus: pickField(source, 'corpus'),
+    doc_type: pickField(source, 'doc_type', 'docType', 'type'),
+    from: pickField(source, 'from', 'from_field', 'author'),
+    to: pickField(source, 'to', 'to_field', 'recipient'),
+    page_count: Number.isNaN(pageCount) ? null : pageCount
+  };
+}
+
+/**
+ * Merge metadata sources, earlier sources taking precedence field by field
+ */
+function mergeMetadata(...sources: DocumentMetadata[]): DocumentMetadata {
+  const merged = normalizeMetadata({});
+  for (const key of Object.keys(merged) as Array<keyof DocumentMetadata>) {
+    const source = sources.find(candidate => candidate[key] !== null);
+    if (source) {
+      Object.assign(merged, { [key]: source[key] });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Read a document's metadata from its R2 object's customMetadata and its sidecar JSON, if any
+ * Only object heads and the small sidecar are fetched, never the document body
+ * @param bucket The documents bucket
+ * @param r2Key The document key
+ * @param searchMetadata Metadata returned by the vector search, used to fill any gaps
+ * @returns The metadata, or null if the document doesn't exist
+ */
+export async function readDocumentMetadata(
+  bucket: DocumentBucket,
+  r2Key: string,
+  searchMetadata: RawDocumentMetadata = {}
+): Promise<DocumentMetadata | null> {
+  const [head, sidecar] = await Promise.all([
+    bucket.head(r2Key),
+    bucket.get(`${r2Key}${SIDECAR_SUFFIX}`)
+  ]);
+
+  if (!head) {
+    return null;
+  }
+
+  let sidecarMetadata: RawDocumentMetadata = {};
+  if (sidecar) {
+    try {
+      const parsed = await sidecar.json<RawDocumentMetadata>();
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        sidecarMetadata = parsed;
+      }
+    } catch (error) {
+      logError("DocumentMetadata", "Invalid sidecar metadata JSON", error, { r2Key });
+    }
+  }
+
+  return mergeMetadata(
+    normalizeMetadata(head.customMetadata || {}),
+    normalizeMetadata(sidecarMetadata),
+    normalizeMetadata(searchMetadata)
+  );
+}
@@ -0,0 +1,139 @@
+// utils/document-utils.ts
+// Utilities for reading documents incrementally by page, character window or chunk
+
+import { DOCUMENT_TEXT_WINDOW, MAX_DOCUMENT_TEXT_WINDOW, CHUNK_CONTEXT_CHARS } from "../config";
+
+// Pages in the extracted document text are separated by form feed characters
+const PAGE_SEPARATOR = '\f';
+
+/**
+ * A slice of a document's text along with its position in the whole document
+ */
+export interface DocumentSlice {
+  text: string;
+  start_char: number;
+  end_char: number; // Exclusive
+  total_chars: number;
+  total_pages: number;
+  start_page?: number;
+  end_page?: number;
+  has_more: boolean;
+  next_start_char?: number;
+}
+
+/**
+ * Clamp a requested window size to the allowed bounds
+ */
+function clampWindow(maxChars?: number): number {
+  return Math.min(Math.max(maxChars ?? DOCUMENT_TEXT_WINDOW, 1), MAX_DOCUMENT_TEXT_WINDOW);
+}
+
+/**
+ * Return the character offset at which each page starts
+ */
+function getPageOffsets(text: string): number[] {
+  const offsets = [0];
+  let position = text.indexOf(PAGE_SEPARATOR);
+  while (position !== -1) {
+    offsets.push(position + 1);
+    position = text.indexOf(PAGE_SEPARATOR, position + 1);
+  }
+  return offsets;
+}
+
+/**
+ * Find the page number (1-based) containing a character offset
+ */
+function getPageAt(pageOffsets: number[], charOffset: number): number {
+  let page = 1;
+  for (let i = 0; i < pageOffsets.length && pageOffsets[i] <= charOffset; i++) {
+    page = i + 1;
+  }
+  return page;
+}
+
+/**
+ * Build a slice of the text between two character offsets, capped at the window size
+ */
+function buildSlice(text: string, pageOffsets: number[], start: number, end: number, maxChars?: number): DocumentSlice {
+  const startChar = Math.min(Math.max(start, 0), text.length);
+  const endChar = Math.min(end, startChar + clampWindow(maxChars), text.length);
+  const hasMore = endChar < text.length;
+
+  return {
+    text: text.substring(startChar, endChar),
+    start_char: startChar,
+    end_char: endChar,
+    total_chars: text.length,
+    total_pages: pageOffsets.length,
+    start_page: getPageAt(pageOffsets, startChar),
+    end_page: getPageAt(pageOffsets, Math.max(endChar - 1, startChar)),
+    has_more: hasMore,
+    next_start_char: hasMore ? endChar : undefined
+  };
+}
+
+/**
+ * Slice a character window out of the document text
+ * @param text The full document text
+ * @param startChar Offset of the first character to return (defaults to 0)
+ * @param maxChars Window size (defaults to DOCUMENT_TEXT_WINDOW, capped at MAX_DOCUMENT_TEXT_WINDOW)
+ */
+export function sliceByCharacters(text: string, startChar = 0, maxChars?: number): DocumentSlice {
+  return buildSlice(text, getPageOffsets(text), startChar, text.length, maxChars);
+}
+
+/**
+ * Slice a page range out of the document text, capped at the window size
+ * @param text The full document text
+ * @param startPage First page to return (1-based)
+ * @param endPage Last page to return, inclusive (defaults to startPage)
+ * @returns The slice, or null if the start page is past the end of the document
+ */
+export function sliceByPages(text: string, startPage: number, endPage?: number, maxChars?: number): DocumentSlice | null {
+  const pageOffsets = getPageOffsets(text);
+  if (startPage > pageOffsets.length) {
+    return null;
+  }
+
+  const lastPage = Math.min(Math.max(endPage ?? startPage, startPage), pageOffsets.length);
+  const start = pageOffsets[startPage - 1];
+  const end = lastPage < pageOffsets.length ? pageOffsets[lastPage] : text.length;
+
+  return buildSlice(text, pageOffsets, start, end, maxChars);
+}
+
+/**
+ * Find the character offset at which a chunk starts in the document text
+ * Matches on the opening of the chunk, since chunk text may be trimmed differently than the source
+ * @returns The offset, or -1 if the chunk text cannot be located
+ */
+export function locateChunk(text: string, chunkText: string): number {
+  const probe = chunkText.trim().substring(0, 200);
+  return probe ? text.indexOf(probe) : -1;
+}
+
+/**
+ * Find the page number (1-based) containing a character offset of the document text
+ */
+export function getPageNumber(text: string, charOffset: number): number {
+  return getPageAt(getPageOffsets(text), charOffset);
+}
+
+/**
+ * Slice the region of the document containing a chunk, with surrounding context
+ * @param text The full document text
+ * @param chunkText The text of the chunk as returned by the vector search
+ * @returns The slice, or null if the chunk text cannot be located in the document
+ */
+export function sliceAroundChunk(text: string, chunkText: string, maxChars?: number): DocumentSlice | null {
+  const position = locateChunk(text, chunkText);
+  if (position === -1) {
+    return null;
+  }
+
+  const start = Math.max(position - CHUNK_CONTEXT_CHARS, 0);
+  const end = position + chunkText.trim().length + CHUNK_CONTEXT_CHARS;
+
+  return buildSlice(text, getPageOffsets(text), start, end, maxChars);
+}
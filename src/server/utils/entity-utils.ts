@@ -0,0 +1,219 @@
+// utils/entity-utils.ts
+// Utilities for extracting named people, organizations and places from search result chunks
+
+import type { EntityIndexEntry, EntityType } from "../../shared";
+import type { SearchDocument } from "../types";
+
+/**
+ * A named entity found in a piece of text
+ */
+export interface ExtractedEntity {
+  name: string;
+  type: EntityType;
+}
+
+// Titles that mark the following name as a person
+const PERSON_TITLES = new Set([
+  "president", "vice", "secretary", "ambassador", "minister", "prime", "premier", "chancellor",
+  "general", "gen", "admiral", "adm", "colonel", "col", "senator", "sen", "congressman", "governor",
+  "chairman", "director", "deputy", "undersecretary", "king", "queen", "prince", "shah", "sheikh",
+  "mr", "mrs", "ms", "dr", "amb", "judge", "justice", "foreign", "attorney", "assistant", "counselor"
+]);
+
+// Words that mark a name as an organization
+const ORGANIZATION_WORDS = new Set([
+  "department", "ministry", "council", "agency", "committee", "commission", "bank", "fund",
+  "organization", "organisation", "party", "government", "embassy", "consulate", "office", "bureau",
+  "corporation", "company", "institute", "university", "congress", "senate", "parliament", "army",
+  "navy", "force", "forces", "front", "movement", "administration", "association", "service",
+  "staff", "mission", "court", "assembly", "secretariat", "delegation", "command", "nations", "house",
+  "pentagon", "kremlin"
+]);
+
+// Departments and portfolios named after a title, e.g. "Secretary of State"
+const OFFICE_WORDS = new Set([
+  "state", "defense", "defence", "treasury", "commerce", "agriculture", "labor", "justice", "interior",
+  "foreign", "affairs", "energy", "health", "education", "transportation", "general", "national", "security"
+]);
+
+// Acronyms of organizations that appear throughout the collections
+const ORGANIZATION_ACRONYMS = new Set([
+  "CIA", "NSC", "NATO", "UN", "KGB", "FBI", "IMF", "OPEC", "PLO", "SEATO", "CENTO", "OAS", "USIA",
+  "USAID", "JCS", "DOD", "EEC", "IAEA", "ASEAN", "NSA", "DIA", "INR", "ACDA", "GRU", "UNESCO",
+  "UNICEF", "UNHCR", "UNGA", "WTO", "GATT", "OECD", "SALT", "ANC", "IRA", "ZANU", "MPLA", "UNITA"
+]);
+
+// Countries, regions and cities that appear throughout the collections
+const PLACES = new Set([
+  "Afghanistan", "Albania", "Algeria", "Angola", "Argentina", "Australia", "Austria", "Bangladesh",
+  "Belgium", "Berlin", "Bolivia", "Brazil", "Bulgaria", "Burma", "Cambodia", "Canada", "Chile", "China",
+  "Colombia", "Congo", "Cuba", "Cyprus", "Czechoslovakia", "Denmark", "Ecuador", "Egypt", "Ethiopia",
+  "Finland", "France", "Geneva", "Germany", "Ghana", "Greece", "Guatemala", "Haiti", "Havana",
+  "Hungary", "India", "Indonesia", "Iran", "Iraq", "Ireland", "Israel", "Italy", "Japan", "Jerusalem",
+  "Jordan", "Kenya", "Korea", "Kuwait", "Laos", "Lebanon", "Libya", "London", "Malaysia", "Mexico",
+  "Moscow", "Mozambique", "Netherlands", "Nicaragua", "Nigeria", "Norway", "Pakistan", "Panama",
+  "Paris", "Peking", "Beijing", "Peru", "Philippines", "Poland", "Portugal", "Rhodesia", "Romania",
+  "Russia", "Saigon", "Hanoi", "Saudi Arabia", "Somalia", "South Africa", "Soviet Union", "Spain",
+  "Sudan", "Sweden", "Switzerland", "Syria", "Taiwan", "Tehran", "Thailand", "Tokyo", "Turkey",
+  "Uganda", "United Kingdom", "United States", "Uruguay", "USSR", "Venezuela", "Vietnam", "Viet-Nam",
+  "Washington", "Yemen", "Yugoslavia", "Zaire", "Zambia", "Zimbabwe", "Middle East", "Latin America",
+  "Western Europe", "Eastern Europe", "Southeast Asia", "Persian Gulf", "Sinai", "West Bank", "Gaza",
+  "New York", "New Delhi", "Camp David", "Bonn", "Cairo", "Damascus", "Baghdad", "Kabul", "Phnom Penh"
+]);
+
+// Capitalized words that start sentences or dates rather than names
+const NON_NAME_WORDS = new Set([
+  "The", "This", "That", "These", "Those", "There", "It", "He", "She", "We", "They", "I", "In", "On",
+  "At", "For", "From", "With", "As", "If", "But", "And", "Or", "Of", "To", "By", "A", "An", "After",
+  "Before", "During", "When", "While", "Since", "Although", "However", "Also", "Our", "His", "Her",
+  "Their", "Its", "My", "Your", "Please", "Subject", "Ref", "Reference", "Page", "Secret", "Confidential",
+  "Unclassified", "Top", "Limited", "Official", "Use", "Only", "Eyes", "Not", "No", "Yes",
+  "January", "February", "March", "April", "May", "June", "July", "August", "September", "October",
+  "November", "December", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"
+]);
+
+// Lowercase words allowed inside a multi-word name, e.g. "Ministry of Foreign Affairs"
+const NAME_CONNECTORS = new Set(["of", "for", "de", "van", "von", "al", "bin", "la", "del", "da"]);
+
+// Sequences of capitalized words, initials and connectors
+// (a period only follows initials and abbreviated titles, so names don't run across sentences)
+const NAME_PATTERN = /\b(?:(?:Mr|Mrs|Ms|Dr|Gen|Adm|Col|Sen|Amb)\.|[A-Z]\.|[A-Z][a-zA-Z'’-]*)(?:\s+(?:(?:of|for|de|van|von|al|bin|la|del|da)\s+)?(?:[A-Z]\.|[A-Z][a-zA-Z'’-]+))*/g;
+
+// All-caps tokens that could be acronyms
+const ACRONYM_PATTERN = /\b[A-Z]{2,6}\b/g;
+
+/**
+ * Check whether a text is mostly upper case, as telegrams often are
+ */
+function isMostlyUpperCase(text: string): boolean {
+  const letters = text.replace(/[^a-zA-Z]/g, '');
+  if (letters.length === 0) return false;
+  return letters.replace(/[^A-Z]/g, '').length / letters.length > 0.6;
+}
+
+/**
+ * Check whether a word is a title such as "Secretary" or "Amb."
+ */
+function isTitle(word: string): boolean {
+  return PERSON_TITLES.has(word.toLowerCase().replace(/\.$/, ''));
+}
+
+/**
+ * Classify a capitalized name, using the word before it as context
+ * @returns The entity, or null if the name isn't distinctive enough to keep
+ */
+function classifyName(rawName: string, precedingWord: string): ExtractedEntity | null {
+  let words = rawName.replace(/[.’']+$/, '').split(/\s+/);
+  const trim = () => {
+    while (words.length > 0 && (NON_NAME_WORDS.has(words[0]) || NAME_CONNECTORS.has(words[0]))) words.shift();
+    while (words.length > 0 && NAME_CONNECTORS.has(words[words.length - 1])) words.pop();
+  };
+  trim();
+  if (words.length === 0) return null;
+
+  if (PLACES.has(words.join(' '))) {
+    return { name: words.join(' '), type: 'place' };
+  }
+  if (words.some(word => ORGANIZATION_WORDS.has(word.toLowerCase()))) {
+    return { name: words.join(' '), type: 'organization' };
+  }
+
+  // Drop titles and the offices that follow them ("Secretary of State Rogers" -> "Rogers")
+  let hasTitle = isTitle(precedingWord);
+  const lastTitle = words.map(isTitle).lastIndexOf(true);
+  if (lastTitle !== -1) {
+    hasTitle = true;
+    words = words.slice(lastTitle + 1);
+    while (words.length > 0 && (NAME_CONNECTORS.has(words[0]) || OFFICE_WORDS.has(words[0].toLowerCase()))) words.shift();
+    trim();
+  }
+  if (words.length === 0) return null;
+
+  // Remaining names are people when a title precedes them or they look like "First [M.] Last"
+  const name = words.join(' ');
+  const nameWords = words.filter(word => !NAME_CONNECTORS.has(word));
+  if (PLACES.has(name)) return { name, type: 'place' };
+  if (nameWords.some(word => NON_NAME_WORDS.has(word)) || nameWords.length > 4) return null;
+  if (hasTitle || nameWords.length >= 2) {
+    return { name, type: 'person' };
+  }
+  return null;
+}
+
+/**
+ * Extract named people, organizations and places from a piece of text
+ * Uses capitalization, titles, organization keywords and a small gazetteer; mostly upper case text
+ * (such as telegrams) only yields known places and organization acronyms
+ * @param text The text to scan, e.g. a search result chunk
+ * @returns The entities, one entry per mention
+ */
+export function extractEntities(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+
+  for (const match of text.matchAll(ACRONYM_PATTERN)) {
+    if (ORGANIZATION_ACRONYMS.has(match[0])) {
+      entities.push({ name: match[0], type: 'organization' });
+    }
+    else if (match[0] === 'USSR') {
+      entities.push({ name: 'USSR', type: 'place' });
+    }
+  }
+
+  if (isMostlyUpperCase(text)) {
+    const upperText = text.toUpperCase();
+    for (const place of PLACES) {
+      if (upperText.includes(place.toUpperCase()) && place !== 'USSR') {
+        entities.push({ name: place, type: 'place' });
+      }
+    }
+    return entities;
+  }
+
+  for (const match of text.matchAll(NAME_PATTERN)) {
+    if (/^[A-Z]{2,6}$/.test(match[0])) continue; // Acronyms are handled above
+
+    const before = text.substring(Math.max(0, (match.index ?? 0) - 20), match.index ?? 0).trim().split(/\s+/).pop() || '';
+    const entity = classifyName(match[0], before);
+    if (entity) {
+      entities.push(entity);
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * Aggregate the entities mentioned in search result documents into an index
+ * @param documents Search result documents, as surfaced in the conversation
+ * @param limit Maximum number of entries to return
+ * @returns Entries sorted by the number of documents mentioning them, then by mentions
+ */
+export function buildEntityIndex(documents: SearchDocument[], limit: number): EntityIndexEntry[] {
+  const index = new Map<string, EntityIndexEntry & { documentKeys: Set<string> }>();
+
+  for (const doc of documents) {
+    const documentKey = doc.file_info?.r2Key || doc.document_id;
+    const text = (doc.chunks || []).map(chunk => chunk.text || '').join('\n');
+
+    for (const entity of extractEntities(text)) {
+      const key = `${entity.type}:${entity.name.toLowerCase()}`;
+      let entry = index.get(key);
+      if (!entry) {
+        entry = { name: entity.name, type: entity.type, document_count: 0, mentions: 0, r2Keys: [], documentKeys: new Set() };
+        index.set(key, entry);
+      }
+
+      entry.mentions++;
+      if (!entry.documentKeys.has(documentKey)) {
+        entry.documentKeys.add(documentKey);
+        entry.document_count++;
+        if (doc.file_info?.r2Key) entry.r2Keys.push(doc.file_info.r2Key);
+      }
+    }
+  }
+
+  return [...index.values()]
+    .sort((a, b) => b.document_count - a.document_count || b.mentions - a.mentions || a.name.localeCompare(b.name))
+    .slice(0, limit)
+    .map(({ documentKeys, ...entry }) => entry);
+}
@@ -4,44 +4,100 @@
 import { COLLECTION_ID } from "../config";
 import { logError } from "../../shared";
 
+// Prefix of signed conversation IDs: `v1.<base64url components>.<base64url HMAC-SHA256 signature>`
+// Legacy IDs are plain base64 of the components, which never contains a dot
+const SIGNED_ID_VERSION = 'v1';
+
 /**
- * Decode the hashed components of a conversation ID
- * This must match the frontend implementation
+ * The components a conversation ID is made of
  */
-export function decodeHashedComponents(hash: string): { userId: string, collectionId: string, convoId: string } {
+export interface ConversationComponents {
+  userId: string;
+  collectionId: string;
+  convoId: string;
+}
+
+/**
+ * Get the HMAC key conversation IDs are signed with
+ */
+async function getSigningKey(secret: string): Promise<CryptoKey> {
+  if (!secret) {
+    throw new Error("CONVERSATION_ID_SECRET is not set. Add it to .dev.vars, or run `npx wrangler secret put CONVERSATION_ID_SECRET`");
+  }
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * Decode the hashed components of a conversation ID, signed or legacy, without verifying it
+ * Only use the result where the ID has already been verified (e.g. by the agent router) or
+ * doesn't need to be trusted. This must match the frontend implementation
+ */
+export function decodeHashedComponents(hash: string): ConversationComponents {
   try {
-    // Decode the base64 string - use Buffer for Node.js environment
-    const decoded = Buffer.from(hash, 'base64').toString('utf-8');
-    
+    const parts = hash.split('.');
+    const decoded = parts.length === 3 && parts[0] === SIGNED_ID_VERSION
+      ? Buffer.from(parts[1], 'base64url').toString('utf-8')
+      : Buffer.from(hash, 'base64').toString('utf-8');
+
     // Split by the delimiter
     const [userId, collectionId, convoId] = decoded.split('|');
-    
+
     return { userId, collectionId, convoId };
   } catch (e) {
     logError("decodeHashedComponents", "Failed to decode hash", e, { hash });
     // Return fallback values if decoding fails
-    return { 
-      userId: 'unknown', 
-      collectionId: COLLECTION_ID, 
+    return {
+      userId: 'unknown',
+      collectionId: COLLECTION_ID,
       convoId: `fallback-${Date.now()}`
     };
   }
 }
 
 /**
- * Encode the components into a hashed conversation ID
- * This must match the frontend implementation
+ * Encode the components into a signed conversation ID
+ * The components stay readable by the frontend; the signature stops them being changed.
  */
-export function encodeHashedComponents(userId: string, collectionId: string, convoId: string): string {
+export async function encodeHashedComponents(userId: string, collectionId: string, convoId: string, secret: string): Promise<string> {
+  const payload = `${SIGNED_ID_VERSION}.${Buffer.from(`${userId}|${collectionId}|${convoId}`).toString('base64url')}`;
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${Buffer.from(signature).toString('base64url')}`;
+}
+
+/**
+ * Verify a conversation ID and decode its components
+ * Legacy unsigned IDs are still read, flagged as unsigned so callers can require other proof
+ * that the user owns the conversation.
+ * @returns The components, or null if the ID is malformed or its signature doesn't match
+ */
+export async function verifyHashedComponents(hash: string, secret: string): Promise<(ConversationComponents & { signed: boolean }) | null> {
+  const parts = hash.split('.');
+  if (parts.length === 1) {
+    const components = decodeHashedComponents(hash);
+    return components.userId && components.collectionId && components.convoId ? { ...components, signed: false } : null;
+  }
+
+  if (parts.length !== 3 || parts[0] !== SIGNED_ID_VERSION) {
+    return null;
+  }
+
   try {
-    // Join components with a delimiter
-    const combined = `${userId}|${collectionId}|${convoId}`;
-    
-    // Encode to base64
-    return Buffer.from(combined).toString('base64');
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(secret),
+      Buffer.from(parts[2], 'base64url'),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+    return valid ? { ...decodeHashedComponents(hash), signed: true } : null;
   } catch (e) {
-    logError("encodeHashedComponents", "Failed to encode components", e, { userId, collectionId, convoId });
-    // Return fallback value
-    return Buffer.from(`unknown|${COLLECTION_ID}|fallback-${Date.now()}`).toString('base64');
+    logError("verifyHashedComponents", "Failed to verify conversation ID", e, { hash });
+    return null;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Generate a new conversation ID component
+ */
+export function generateConversationId(): string {
+  return `convo_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
@@ -0,0 +1,151 @@
+// utils/history-utils.ts
+// Utilities for keeping the conversation history sent to the model within a token budget
+
+import type { Message } from "ai";
+
+// Rough number of characters per token, used to estimate the size of messages
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * How a conversation history was compacted to fit its token budget
+ */
+export interface HistoryCompaction {
+  // Older messages whose tool results or text were summarized, or which were left out
+  summarizedMessages: number;
+  // The newest message that was summarized or left out
+  throughMessageId: string;
+  estimatedTokens: number;
+}
+
+/**
+ * Estimate the number of tokens a message takes up in the model's context
+ */
+export function estimateMessageTokens(message: Message): number {
+  return Math.ceil(JSON.stringify({ content: message.content, parts: message.parts, toolInvocations: message.toolInvocations }).length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Shorten a text to at most maxChars characters, marking where it was cut
+ */
+function shortenText(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.substring(0, maxChars)}… [${text.length - maxChars} characters elided]` : text;
+}
+
+/**
+ * Summarize a tool result, keeping its structure and every ID, r2Key and title but shortening
+ * long texts (chunk texts, document slices, passages)
+ * Chunks keep their IDs, so a summarized search result can still be cited and read again.
+ */
+export function summarizeToolResult(result: unknown, maxChars: number): unknown {
+  if (typeof result === "string") {
+    return shortenText(result, maxChars);
+  }
+  if (Array.isArray(result)) {
+    return result.map(item => summarizeToolResult(item, maxChars));
+  }
+  if (result && typeof result === "object") {
+    const summarized: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(result as Record<string, unknown>)) {
+      summarized[key] = key === "chunks" && Array.isArray(value)
+        ? value.map(chunk => ({ id: chunk?.id, score: chunk?.score }))
+        : summarizeToolResult(value, maxChars);
+    }
+    return summarized;
+  }
+  return result;
+}
+
+/**
+ * Summarize the tool results and shorten the text of a message
+ * @param includeText Whether to shorten the message text as well as its tool results
+ */
+function summarizeMessage(message: Message, maxChars: number, includeText: boolean): Message {
+  const summarizeInvocation = (toolInvocation: NonNullable<Message["toolInvocations"]>[number]) => {
+    if (toolInvocation.state !== "result") return toolInvocation;
+
+    // Results are marked, so the model knows to read a document again for its full text
+    const result = summarizeToolResult(toolInvocation.result, maxChars);
+    return { ...toolInvocation, result: result && typeof result === "object" && !Array.isArray(result) ? { ...result, summarized: true } : result };
+  };
+
+  return {
+    ...message,
+    content: includeText ? shortenText(message.content, maxChars) : message.content,
+    toolInvocations: message.toolInvocations?.map(summarizeInvocation),
+    parts: message.parts?.map(part => {
+      if (part.type === "tool-invocation") {
+        return { ...part, toolInvocation: summarizeInvocation(part.toolInvocation) };
+      }
+      if (part.type === "text" && includeText) {
+        return { ...part, text: shortenText(part.text, maxChars) };
+      }
+      return part;
+    })
+  };
+}
+
+/**
+ * Compact a conversation history to fit a token budget
+ * The messages of the most recent turns are kept as they are. Older messages are compacted,
+ * oldest first and only as far as needed: first their tool results are summarized, then their
+ * text is shortened, and finally they are left out.
+ * @param messages The conversation messages
+ * @param tokenBudget The most tokens the history may take up
+ * @param recentTurns The number of most recent user turns (with their answers) never compacted
+ * @param maxChars The longest text kept in a summarized message
+ * @returns The messages to send to the model, and how they were compacted (null if they fit as they are)
+ */
+export function compactHistory(
+  messages: Message[],
+  tokenBudget: number,
+  recentTurns: number,
+  maxChars: number
+): { messages: Message[], compaction: HistoryCompaction | null } {
+  const tokens = messages.map(estimateMessageTokens);
+  let total = tokens.reduce((sum, count) => sum + count, 0);
+  if (total <= tokenBudget) {
+    return { messages, compaction: null };
+  }
+
+  // Messages from the start of the recent turns on are kept as they are
+  const userIndexes = messages.flatMap((message, index) => message.role === "user" ? [index] : []);
+  const protectedFrom = userIndexes.length > recentTurns ? userIndexes[userIndexes.length - recentTurns] : 0;
+
+  const compacted: Array<Message | null> = [...messages];
+  let throughIndex = -1;
+  const replace = (index: number, replacement: Message | null) => {
+    const replacementTokens = replacement ? estimateMessageTokens(replacement) : 0;
+    total += replacementTokens - tokens[index];
+    tokens[index] = replacementTokens;
+    compacted[index] = replacement;
+    throughIndex = Math.max(throughIndex, index);
+  };
+
+  // Summarize tool results, then shorten text
+  for (const includeText of [false, true]) {
+    for (let index = 0; index < protectedFrom && total > tokenBudget; index++) {
+      replace(index, summarizeMessage(messages[index], maxChars, includeText));
+    }
+  }
+
+  // Leave out whole turns, so the history still starts with a user message
+  for (let index = 0; index < protectedFrom && total > tokenBudget;) {
+    do {
+      replace(index, null);
+      index++;
+    } while (index < protectedFrom && messages[index].role !== "user");
+  }
+
+  if (throughIndex === -1) {
+    return { messages, compaction: null };
+  }
+
+  return {
+    messages: compacted.filter((message): message is Message => message !== null),
+    compaction: {
+      summarizedMessages: throughIndex + 1,
+      throughMessageId: messages[throughIndex].id,
+      estimatedTokens: total
+    }
+  };
+}
@@ -0,0 +1,188 @@
+// utils/hybrid-search.ts
+// Utilities for lexical matching over chunk text and fusing rankings from several sources
+
+import { HYBRID_RRF_K } from "../config";
+import type { SearchDocument } from "../types";
+
+// Common words that carry no weight in a keyword match
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it",
+  "of", "on", "or", "that", "the", "to", "was", "were", "with"
+]);
+
+/**
+ * A keyword query split into exact phrases and loose terms
+ */
+export interface KeywordQuery {
+  phrases: string[]; // Quoted phrases that must appear verbatim, e.g. "STATE 123456"
+  terms: string[]; // Remaining individual words
+}
+
+/**
+ * Search result document annotated with its lexical and fused scores
+ */
+export type RankedSearchDocument = SearchDocument & {
+  lexical_score: number;
+  fused_score: number;
+  matched_terms: string[];
+};
+
+/**
+ * Lowercase and collapse whitespace so phrases match across line breaks
+ */
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Count non-overlapping occurrences of a needle in a haystack
+ */
+function countOccurrences(haystack: string, needle: string): number {
+  if (!needle) return 0;
+
+  let count = 0;
+  let position = haystack.indexOf(needle);
+  while (position !== -1) {
+    count++;
+    position = haystack.indexOf(needle, position + needle.length);
+  }
+  return count;
+}
+
+/**
+ * Split a query into quoted phrases and individual terms
+ * @param query The raw query, e.g. `"MONGOOSE" Lansdale sabotage`
+ */
+export function parseKeywordQuery(query: string): KeywordQuery {
+  const phrases: string[] = [];
+  const remainder = query.replace(/"([^"]+)"/g, (_match, phrase: string) => {
+    const normalized = normalizeText(phrase);
+    if (normalized) phrases.push(normalized);
+    return ' ';
+  });
+
+  const terms = normalizeText(remainder)
+    .split(' ')
+    .map(term => term.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter(term => term.length > 1 && !STOPWORDS.has(term));
+
+  return { phrases, terms: [...new Set(terms)] };
+}
+
+/**
+ * Remove the quoting from a keyword query so it can be embedded for the semantic search
+ */
+export function toSemanticQuery(query: string): string {
+  return query.replace(/"/g, '').trim();
+}
+
+/**
+ * Score a document on how often the query phrases and terms appear in its title and chunk text
+ * Phrases weigh twice as much as terms, and repeated occurrences are capped at three
+ */
+export function scoreDocumentLexically(doc: SearchDocument, keywordQuery: KeywordQuery): { score: number, matchedTerms: string[] } {
+  const text = normalizeText([
+    doc.file_info?.metadata?.title || '',
+    ...(doc.chunks || []).map(chunk => chunk.text || '')
+  ].join(' '));
+
+  let score = 0;
+  const matchedTerms: string[] = [];
+
+  for (const phrase of keywordQuery.phrases) {
+    const count = countOccurrences(text, phrase);
+    if (count > 0) {
+      score += 2 * Math.min(count, 3);
+      matchedTerms.push(`"${phrase}"`);
+    }
+  }
+
+  for (const term of keywordQuery.terms) {
+    const count = text.match(new RegExp(`(?<![\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\p{L}\\p{N}])`, 'gu'))?.length || 0;
+    if (count > 0) {
+      score += Math.min(count, 3);
+      matchedTerms.push(term);
+    }
+  }
+
+  return { score, matchedTerms };
+}
+
+/**
+ * Re-rank semantically ranked documents by fusing them with their lexical ranking
+ * Uses reciprocal rank fusion; in keyword mode, documents without any lexical match are dropped
+ * @param documents Documents in semantic rank order
+ * @param query The raw query, with optional quoted phrases
+ * @param mode 'keyword' to require lexical matches, 'hybrid' to keep every document
+ */
+export function fuseSearchResults(documents: SearchDocument[], query: string, mode: 'keyword' | 'hybrid'): RankedSearchDocument[] {
+  const keywordQuery = parseKeywordQuery(query);
+
+  const scored = documents.map((doc, semanticRank) => {
+    const { score, matchedTerms } = scoreDocumentLexically(doc, keywordQuery);
+    return { doc, semanticRank, lexicalScore: score, matchedTerms };
+  });
+
+  // Lexical rank: higher score first, semantic rank breaks ties
+  const lexicalOrder = [...scored]
+    .filter(entry => entry.lexicalScore > 0)
+    .sort((a, b) => b.lexicalScore - a.lexicalScore || a.semanticRank - b.semanticRank);
+  const lexicalRanks = new Map(lexicalOrder.map((entry, rank) => [entry, rank]));
+
+  return scored
+    .filter(entry => mode === 'hybrid' || entry.lexicalScore > 0)
+    .map(entry => {
+      const lexicalRank = lexicalRanks.get(entry);
+      const fusedScore = 1 / (HYBRID_RRF_K + entry.semanticRank + 1) +
+        (lexicalRank !== undefined ? 1 / (HYBRID_RRF_K + lexicalRank + 1) : 0);
+
+      return {
+        ...entry.doc,
+        lexical_score: entry.lexicalScore,
+        fused_score: fusedScore,
+        matched_terms: entry.matchedTerms
+      };
+    })
+    .sort((a, b) => b.fused_score - a.fused_score);
+}
+
+/**
+ * Search result document merged across the sub-queries of a batch search
+ */
+export type FusedSearchDocument = SearchDocument & {
+  fused_score: number;
+  matched_queries: number[]; // Indexes of the sub-queries that returned the document
+};
+
+/**
+ * Merge the ranked results of several sub-queries into one list
+ * Documents are deduplicated by doc_id (falling back to document_id), their chunks merged, and ranked
+ * by reciprocal rank fusion so documents found by several sub-queries rise to the top
+ * @param rankedLists One ranked list of documents per sub-query, in sub-query order
+ */
+export function fuseSubQueryResults(rankedLists: SearchDocument[][]): FusedSearchDocument[] {
+  const fused = new Map<string, FusedSearchDocument>();
+
+  rankedLists.forEach((documents, queryIndex) => {
+    documents.forEach((doc, rank) => {
+      const key = doc.file_info?.metadata?.doc_id?.toString() || doc.document_id;
+      const contribution = 1 / (HYBRID_RRF_K + rank + 1);
+      const existing = fused.get(key);
+
+      if (!existing) {
+        fused.set(key, { ...doc, chunks: [...(doc.chunks || [])], fused_score: contribution, matched_queries: [queryIndex] });
+        return;
+      }
+
+      existing.fused_score += contribution;
+      existing.best_score = Math.max(existing.best_score, doc.best_score);
+      if (!existing.matched_queries.includes(queryIndex)) {
+        existing.matched_queries.push(queryIndex);
+      }
+      const chunkIds = new Set((existing.chunks || []).map(chunk => chunk.id));
+      existing.chunks = [...(existing.chunks || []), ...(doc.chunks || []).filter(chunk => !chunkIds.has(chunk.id))];
+    });
+  });
+
+  return [...fused.values()].sort((a, b) => b.fused_score - a.fused_score || b.best_score - a.best_score);
+}
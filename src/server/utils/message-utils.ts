@@ -0,0 +1,77 @@
+// utils/message-utils.ts
+// Utilities for inspecting tool results stored in the conversation messages
+
+import type { Message } from "ai";
+import type { SearchDocument } from "../types";
+
+// Tools whose results contain a `documents` array of search results
+export const DOCUMENT_RESULT_TOOLS = ["queryCollection", "batchQueryCollection", "findRelatedDocuments"];
+
+// Tools whose results contain `buckets`, each with a `documents` array of search results
+export const BUCKETED_RESULT_TOOLS = ["buildTimeline"];
+
+/**
+ * Collect every search result document surfaced to the user in the conversation
+ * @param messages The conversation messages
+ * @returns The documents, in the order they were surfaced
+ */
+export function getSurfacedDocuments(messages: Message[]): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+
+  for (const message of messages) {
+    if (message.role !== 'assistant' || !Array.isArray(message.parts)) continue;
+
+    for (const part of message.parts) {
+      if (part.type !== 'tool-invocation') continue;
+
+      const toolInvocation = part.toolInvocation;
+      if (toolInvocation.state !== 'result') continue;
+
+      const result = toolInvocation.result;
+      if (DOCUMENT_RESULT_TOOLS.includes(toolInvocation.toolName) && result && Array.isArray(result.documents)) {
+        documents.push(...result.documents);
+      }
+      else if (BUCKETED_RESULT_TOOLS.includes(toolInvocation.toolName) && result && Array.isArray(result.buckets)) {
+        for (const bucket of result.buckets) {
+          documents.push(...(bucket.documents || []));
+        }
+      }
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Collect the r2Keys of the given search result documents
+ * @param documents Search result documents
+ * @returns A set of r2Keys
+ */
+export function getDocumentKeys(documents: SearchDocument[]): Set<string> {
+  const keys = new Set<string>();
+
+  for (const doc of documents) {
+    if (doc.file_info?.r2Key) {
+      keys.add(doc.file_info.r2Key);
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Find a chunk among search result documents by its ID
+ * @param documents Search result documents
+ * @param chunkId The chunk ID, as listed in a search result document's chunks
+ * @returns The chunk and the document it belongs to, or null if none of the documents contains it
+ */
+export function findChunk(documents: SearchDocument[], chunkId: string): { chunk: NonNullable<SearchDocument['chunks']>[number], document: SearchDocument } | null {
+  for (const doc of documents) {
+    const chunk = doc.chunks?.find(candidate => candidate.id === chunkId);
+    if (chunk) {
+      return { chunk, document: doc };
+    }
+  }
+
+  return null;
+}
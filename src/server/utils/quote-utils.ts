@@ -0,0 +1,105 @@
+// utils/quote-utils.ts
+// Utilities for finding the quotes in assistant messages and matching them against document text
+
+// Quotes in straight or curly double quotation marks, within a single line
+const QUOTE_PATTERN = /["“]([^"“”\n]+)["”]/g;
+
+// Citation markers, including those flagged as unverified: {{cite:r2Key}}, {{cite-unverified:r2Key}}
+const CITATION_PATTERN = /{{cite(?:-unverified)?:([^}]+)}}/;
+
+// Ellipses and bracketed insertions, where a quote may leave out or change words of its source
+const ELISION_PATTERN = /\.\.\.|…|\[[^\]]*\]/;
+
+// Number of consecutive words compared between a quote and its source
+const PHRASE_WORDS = 3;
+
+/**
+ * A quote in an assistant message and the document cited as its source
+ */
+export interface CitedQuote {
+  quote: string;
+  r2Key: string;
+}
+
+/**
+ * Split a text into normalized words, ignoring case, accents, punctuation and words hyphenated
+ * across line breaks (common in OCR text)
+ */
+export function normalizeWords(text: string): string[] {
+  return text
+    .replace(/-\s*\n\s*/g, '')
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Get the sequences of PHRASE_WORDS consecutive words in a list of words
+ */
+function getPhrases(words: string[]): string[] {
+  const phrases: string[] = [];
+  for (let index = 0; index + PHRASE_WORDS <= words.length; index++) {
+    phrases.push(words.slice(index, index + PHRASE_WORDS).join(' '));
+  }
+  return phrases;
+}
+
+/**
+ * Index the word sequences of a source text, so quotes can be matched against it
+ */
+export function indexPhrases(text: string): Set<string> {
+  return new Set(getPhrases(normalizeWords(text)));
+}
+
+/**
+ * Score how closely a quote matches a source text
+ * The score is the share of the quote's word sequences found in the source, so a quote with a
+ * changed word or two still scores high while a paraphrase or invented quote scores low.
+ * Sequences don't span ellipses or bracketed insertions, since the words around them needn't be
+ * adjacent in the source.
+ * @param quote The quoted text
+ * @param source The phrase index of the source text
+ * @returns A score between 0 (no match) and 1 (every word sequence found)
+ */
+export function scoreQuote(quote: string, source: Set<string>): number {
+  let phrases = quote.split(ELISION_PATTERN).flatMap(segment => getPhrases(normalizeWords(segment)));
+  if (phrases.length === 0) {
+    phrases = getPhrases(normalizeWords(quote));
+  }
+  if (phrases.length === 0) return 0;
+
+  return phrases.filter(phrase => source.has(phrase)).length / phrases.length;
+}
+
+/**
+ * Find the quotes in a message that are followed by a citation
+ * Document titles in the response format (bold, or after "From") aren't quotes and are skipped.
+ * @param text The message text
+ * @param minWords The fewest words a quote must have to be checked
+ * @param maxDistance The most characters between the end of a quote and the citation of its source
+ * @returns The quotes, in the order they appear, with the r2Key of their source
+ */
+export function extractCitedQuotes(text: string, minWords: number, maxDistance: number): CitedQuote[] {
+  const quotes: CitedQuote[] = [];
+
+  for (const match of text.matchAll(QUOTE_PATTERN)) {
+    const quote = match[1].trim();
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+
+    if (normalizeWords(quote).length < minWords) continue;
+
+    const before = text.substring(0, start);
+    const isTitle = (before.endsWith('**') && text.startsWith('**', end)) || /\bfrom\s*$/i.test(before);
+    if (isTitle) continue;
+
+    const citation = text.substring(end).match(CITATION_PATTERN);
+    if (!citation || (citation.index ?? 0) > maxDistance) continue;
+
+    quotes.push({ quote, r2Key: citation[1].trim() });
+  }
+
+  return quotes;
+}
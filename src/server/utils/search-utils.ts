@@ -0,0 +1,308 @@
+// utils/search-utils.ts
+// Utilities for building and paging vector search requests
+
+import { logError } from "../../shared";
+import type { SearchFilterCondition, SearchFilters, SearchMetadata } from "../types";
+
+/**
+ * How queryCollection ranks results: by embeddings only, by exact matches only, or both fused
+ */
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+/**
+ * Position of a paged search, carried between calls as an opaque cursor
+ */
+export interface SearchCursor {
+  offset: number; // Number of ranked documents already returned
+  query: string; // The query the cursor belongs to
+  mode: SearchMode; // The search mode the cursor belongs to
+  scope: string; // Fingerprint of the filters and page size the cursor belongs to (see getSearchScope)
+}
+
+/**
+ * Hash a string with 32-bit FNV-1a
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Serialize a value with object keys in sorted order, so equal filters always serialize the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Fingerprint the filters and page size of a search
+ * A cursor carries the fingerprint of the search it came from, so it can't apply its offset to a
+ * different result set.
+ */
+export function getSearchScope(filters: SearchFilters, topK: number): string {
+  return hashString(stableStringify({ filters, topK }));
+}
+
+/**
+ * Encode a search position into an opaque continuation cursor
+ * The cursor carries an unkeyed checksum of its fields, so a truncated or garbled cursor is rejected
+ * when decoded. The checksum doesn't stop deliberate edits, since it can be recomputed; a cursor only
+ * holds a position the caller could ask for directly, and is checked against the search it continues.
+ */
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  const { offset, query, mode, scope } = cursor;
+  const checksum = hashString(stableStringify({ offset, query, mode, scope }));
+  return Buffer.from(JSON.stringify({ offset, query, mode, scope, checksum })).toString('base64');
+}
+
+/**
+ * Decode a continuation cursor
+ * @returns The search position, or null if the cursor is malformed or doesn't match its checksum
+ */
+export function decodeSearchCursor(cursor: string): SearchCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64').toString('utf-8'));
+
+    if (
+      typeof decoded?.offset !== 'number' || !Number.isInteger(decoded.offset) || decoded.offset < 0 ||
+      typeof decoded.query !== 'string' || typeof decoded.mode !== 'string' || typeof decoded.scope !== 'string'
+    ) {
+      return null;
+    }
+
+    const { offset, query, mode, scope } = decoded;
+    if (decoded.checksum !== hashString(stableStringify({ offset, query, mode, scope }))) {
+      return null;
+    }
+
+    return { offset, query, mode, scope };
+  } catch (e) {
+    logError("decodeSearchCursor", "Failed to decode search cursor", e, { cursor });
+    return null;
+  }
+}
+
+/**
+ * Add a metadata filter matching any of the given values
+ * Uses $eq for a single value and $in for several, and leaves the filters untouched when empty
+ */
+export function addValuesFilter(filters: SearchFilters, field: string, values?: readonly string[]): void {
+  if (!values || values.length === 0) {
+    return;
+  }
+
+  // Sorted, so the same values in any order make the same filter (and search scope)
+  const uniqueValues = [...new Set(values)].sort();
+  filters[field] = uniqueValues.length === 1 ? { $eq: uniqueValues[0] } : { $in: uniqueValues };
+}
+
+/**
+ * Filter parameters accepted by the search tools
+ */
+export interface SearchFilterParams {
+  doc_id?: string;
+  corpus?: readonly string[];
+  classification?: readonly string[];
+  doc_type?: readonly string[];
+  authored_start_year_month?: string;
+  authored_end_year_month?: string;
+  authored_start_year_month_day?: string;
+  authored_end_year_month_day?: string;
+}
+
+/**
+ * Build the vector search metadata filters from the search tool parameters
+ * @param params Document ID, corpus/classification/type and authored date filters
+ * @returns The filters object expected by findSimilarEmbeddings (empty if no filter applies)
+ */
+export function buildSearchFilters(params: SearchFilterParams): SearchFilters {
+  const filters: SearchFilters = {};
+  const {
+    doc_id,
+    corpus,
+    classification,
+    doc_type,
+    authored_start_year_month,
+    authored_end_year_month,
+    authored_start_year_month_day,
+    authored_end_year_month_day
+  } = params;
+  
+  // Add document ID filter if specified
+  if (doc_id) {
+    filters.doc_id = doc_id;
+  }
+
+  // Add corpus, classification and document type filters if specified
+  addValuesFilter(filters, "corpus", corpus);
+  addValuesFilter(filters, "classification", classification);
+  addValuesFilter(filters, "doc_type", doc_type);
+  
+  // Helper function to convert date strings to numeric format
+  const convertYearMonthToNumber = (dateStr: string): number => {
+    // Extract YYYY and MM parts from YYYY-MM format
+    const [year, month] = dateStr.split('-');
+    // Return YYYYMM as number
+    return Number.parseInt(`${year}${month}`, 10);
+  };
+  
+  const convertYearMonthDayToNumber = (dateStr: string): number => {
+    // Remove all hyphens to convert YYYY-MM-DD to YYYYMMDD
+    const numStr = dateStr.replace(/-/g, '');
+    return Number.parseInt(numStr, 10);
+  };
+  
+  // Check if year-month-day parameters are provided
+  const hasYearMonthDayParams = authored_start_year_month_day || authored_end_year_month_day;
+  
+  // Add year_month_day date range filters if specified (priority over year_month)
+  if (hasYearMonthDayParams) {
+    const range: SearchFilterCondition = {};
+    
+    // Check if start and end are the same - use $eq instead of range
+    if (authored_start_year_month_day && authored_end_year_month_day && 
+        authored_start_year_month_day === authored_end_year_month_day) {
+      range.$eq = convertYearMonthDayToNumber(authored_start_year_month_day);
+    } else {
+      // Use range operators when values are different
+      if (authored_start_year_month_day) {
+        range.$gte = convertYearMonthDayToNumber(authored_start_year_month_day);
+      }
+      
+      if (authored_end_year_month_day) {
+        range.$lte = convertYearMonthDayToNumber(authored_end_year_month_day);
+      }
+    }
+    filters.authored_year_month_day = range;
+  } 
+  // Only use year_month filters if year_month_day is not provided
+  else if (authored_start_year_month || authored_end_year_month) {
+    const range: SearchFilterCondition = {};
+    
+    // Check if start and end are the same - use $eq instead of range
+    if (authored_start_year_month && authored_end_year_month && 
+        authored_start_year_month === authored_end_year_month) {
+      range.$eq = convertYearMonthToNumber(authored_start_year_month);
+    } else {
+      // Use range operators when values are different
+      if (authored_start_year_month) {
+        range.$gte = convertYearMonthToNumber(authored_start_year_month);
+      }
+      
+      if (authored_end_year_month) {
+        range.$lte = convertYearMonthToNumber(authored_end_year_month);
+      }
+    }
+    filters.authored_year_month = range;
+  }
+
+  return filters;
+}
+
+/**
+ * Read a document's authored date from its search metadata
+ * Prefers the numeric authored_year_month_day filter field, falling back to the authored date string
+ * @returns The date (UTC), or null if the metadata has no usable date
+ */
+export function getAuthoredDate(metadata: SearchMetadata = {}): Date | null {
+  const numeric = String(metadata.authored_year_month_day ?? '');
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(numeric) ||
+    /^(\d{4})-(\d{2})-(\d{2})/.exec(String(metadata.authored ?? metadata.date ?? ''));
+  if (!match) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Build an authored date range of the given number of months on either side of a date
+ * @returns Day-precision filter parameters for buildSearchFilters
+ */
+export function getDateWindow(center: Date, months: number): Pick<SearchFilterParams, 'authored_start_year_month_day' | 'authored_end_year_month_day'> {
+  const start = new Date(center);
+  start.setUTCMonth(start.getUTCMonth() - months);
+  const end = new Date(center);
+  end.setUTCMonth(end.getUTCMonth() + months);
+
+  return {
+    authored_start_year_month_day: start.toISOString().substring(0, 10),
+    authored_end_year_month_day: end.toISOString().substring(0, 10)
+  };
+}
+
+/**
+ * Width of each date bucket in a timeline
+ */
+export type TimelineGranularity = 'month' | 'quarter' | 'year';
+
+/**
+ * A consecutive slice of a timeline's date range
+ */
+export interface DateBucket {
+  label: string; // e.g. "1973", "1973-Q2" or "1973-04"
+  start_year_month: string; // YYYY-MM, inclusive
+  end_year_month: string; // YYYY-MM, inclusive
+}
+
+const BUCKET_MONTHS: Record<TimelineGranularity, number> = { month: 1, quarter: 3, year: 12 };
+
+/**
+ * Format a month index (months since year 0) as YYYY-MM
+ */
+function formatMonthIndex(monthIndex: number): string {
+  return `${Math.floor(monthIndex / 12)}-${String((monthIndex % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Split a YYYY-MM range into consecutive buckets aligned to calendar months, quarters or years
+ * The first and last buckets are clipped to the range
+ * @param startYearMonth Start of the range (YYYY-MM, inclusive)
+ * @param endYearMonth End of the range (YYYY-MM, inclusive)
+ * @param granularity Bucket width
+ * @returns The buckets in chronological order (empty if the range is invalid or reversed)
+ */
+export function buildDateBuckets(startYearMonth: string, endYearMonth: string, granularity: TimelineGranularity): DateBucket[] {
+  const toMonthIndex = (yearMonth: string): number | null => {
+    const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(yearMonth);
+    return match ? Number(match[1]) * 12 + Number(match[2]) - 1 : null;
+  };
+
+  const start = toMonthIndex(startYearMonth);
+  const end = toMonthIndex(endYearMonth);
+  if (start === null || end === null || start > end) {
+    return [];
+  }
+
+  const width = BUCKET_MONTHS[granularity];
+  const buckets: DateBucket[] = [];
+  for (let bucketStart = start - (start % width); bucketStart <= end; bucketStart += width) {
+    const year = Math.floor(bucketStart / 12);
+    const label = granularity === 'year'
+      ? `${year}`
+      : granularity === 'quarter'
+        ? `${year}-Q${Math.floor((bucketStart % 12) / 3) + 1}`
+        : formatMonthIndex(bucketStart);
+
+    buckets.push({
+      label,
+      start_year_month: formatMonthIndex(Math.max(bucketStart, start)),
+      end_year_month: formatMonthIndex(Math.min(bucketStart + width - 1, end))
+    });
+  }
+  return buckets;
+}
@@ -10,6 +10,7 @@ import {
 } from "ai";
 import type { z } from "zod";
 import { APPROVAL, logDebug, logInfo, logError } from "../../shared";
+import type { ToolTiming } from "../types";
 
 /**
  * Checks if a tool name is valid in the given object
@@ -150,4 +151,32 @@ export async function processToolCalls<
   // Finally return the processed messages
   logDebug("processToolCalls", "Tool calls processing completed", { processedPartsCount: processedParts.length });
   return [...messages.slice(0, -1), { ...lastMessage, parts: processedParts }];
-} 
\ No newline at end of file
+} 
+
+/**
+ * Wrap the execute functions of tools to time each call
+ * Tools that need confirmation have no execute function and are left as they are.
+ * @param tools The tools passed to the model
+ * @param onTiming Called with the duration of each finished tool call, successful or not
+ * @returns The tools with timed execute functions
+ */
+export function withToolTimings<Tools extends ToolSet>(tools: Tools, onTiming: (timing: ToolTiming) => void): Tools {
+  return Object.fromEntries(
+    Object.entries(tools).map(([toolName, tool]) => {
+      const execute = tool.execute;
+      if (!execute) return [toolName, tool];
+
+      return [toolName, {
+        ...tool,
+        execute: async (args: unknown, options: ToolExecutionOptions) => {
+          const start = Date.now();
+          try {
+            return await execute(args, options);
+          } finally {
+            onTiming({ toolName, toolCallId: options.toolCallId, durationMs: Date.now() - start });
+          }
+        }
+      }];
+    })
+  ) as Tools;
+}
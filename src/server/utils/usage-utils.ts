@@ -0,0 +1,127 @@
+// utils/usage-utils.ts
+// Utilities for accounting the tokens and estimated cost of chat turns
+
+import { MODEL_PRICING } from "../config";
+import type { DailyUsage, SearchCacheStats, TokenUsage, ToolTiming, TurnModel, TurnUsage } from "../types";
+
+/**
+ * Get the price of a model, matching provider model IDs with a version suffix (e.g. gemini-2.0-flash-001)
+ */
+function getModelPricing(modelId: string): { input: number, output: number } | null {
+  const name = modelId.replace(/^models\//, '');
+  const key = Object.keys(MODEL_PRICING).find(pricedName => name === pricedName || name.startsWith(`${pricedName}-`));
+  return key ? MODEL_PRICING[key] : null;
+}
+
+/**
+ * Estimate the cost of a model call in USD
+ * @returns The cost, or null if the model has no price in MODEL_PRICING
+ */
+export function estimateCost(modelId: string, usage: TokenUsage): number | null {
+  const pricing = getModelPricing(modelId);
+  if (!pricing) return null;
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Add two token counts, treating missing counts (e.g. a provider that reported none) as zero
+ */
+export function addUsage(total: TokenUsage, usage: Partial<TokenUsage>): TokenUsage {
+  const promptTokens = total.promptTokens + (usage.promptTokens || 0);
+  const completionTokens = total.completionTokens + (usage.completionTokens || 0);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Add a turn's search cache hits and misses to the conversation's, in total and by tool
+ * @param total The conversation's counts so far, missing for conversations logged before they were kept
+ */
+export function addSearchCacheStats(total: SearchCacheStats | undefined, turn: SearchCacheStats): SearchCacheStats {
+  const byTool = { ...total?.byTool };
+  for (const [toolName, stats] of Object.entries(turn.byTool || {})) {
+    byTool[toolName] = {
+      hits: (byTool[toolName]?.hits || 0) + stats.hits,
+      misses: (byTool[toolName]?.misses || 0) + stats.misses
+    };
+  }
+  return {
+    hits: (total?.hits || 0) + turn.hits,
+    misses: (total?.misses || 0) + turn.misses,
+    byTool
+  };
+}
+
+/**
+ * Account the tokens and estimated cost of a chat turn from the steps of its stream
+ * @param steps The steps of the streamText finish event
+ * @param messageId The ID of the assistant message the turn produced
+ * @param model The model that answered the turn, used for steps whose model the provider didn't report
+ * @param toolCalls How long each tool call of the turn took
+ */
+export function calculateTurnUsage(
+  steps: Array<{ usage?: Partial<TokenUsage>, response?: { modelId?: string } }>,
+  messageId: string,
+  model: TurnModel | undefined,
+  toolCalls: ToolTiming[]
+): TurnUsage {
+  const empty: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  const stepUsages = steps.map(step => {
+    const usage = addUsage(empty, step.usage || {});
+    const reportedModelId = step.response?.modelId;
+    const modelId = reportedModelId && getModelPricing(reportedModelId) ? reportedModelId : model?.name || reportedModelId || 'unknown';
+    return { ...usage, modelId, costUsd: estimateCost(modelId, usage) };
+  });
+
+  return {
+    messageId,
+    timestamp: new Date().toISOString(),
+    model,
+    steps: stepUsages,
+    usage: stepUsages.reduce<TokenUsage>((total, step) => addUsage(total, step), empty),
+    costUsd: stepUsages.reduce((total, step) => total + (step.costUsd ?? 0), 0),
+    toolCalls
+  };
+}
+
+/**
+ * Add a chat turn to a user's usage for the day
+ * @param daily The day's usage so far, or null for the first turn of the day
+ */
+export function addTurnToDailyUsage(
+  daily: DailyUsage | null,
+  userId: string,
+  date: string,
+  conversationId: string,
+  turn: TurnUsage
+): DailyUsage {
+  const current: DailyUsage = daily || {
+    userId,
+    date,
+    turns: 0,
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    costUsd: 0,
+    byModel: {},
+    toolCalls: { total: 0, durationMs: 0 },
+    conversations: []
+  };
+
+  const byModel = { ...current.byModel };
+  for (const step of turn.steps) {
+    const model = byModel[step.modelId] || { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+    byModel[step.modelId] = { ...addUsage(model, step), costUsd: model.costUsd + (step.costUsd ?? 0) };
+  }
+
+  return {
+    ...current,
+    turns: current.turns + 1,
+    usage: addUsage(current.usage, turn.usage),
+    costUsd: current.costUsd + turn.costUsd,
+    byModel,
+    toolCalls: {
+      total: current.toolCalls.total + turn.toolCalls.length,
+      durationMs: current.toolCalls.durationMs + turn.toolCalls.reduce((total, call) => total + call.durationMs, 0)
+    },
+    conversations: current.conversations.includes(conversationId) ? current.conversations : [...current.conversations, conversationId]
+  };
+}
@@ -6,6 +6,175 @@ export const APPROVAL = {
   NO: "rejected",
 } as const;
 
+// Search filter values shared across frontend and backend
+// Keys are the values stored in the vector index metadata, values are display labels
+export const CORPUS_LABELS = {
+  pdb: "Presidential Daily Briefings",
+  cfpf: "State Dept. Central Foreign Policy Files",
+  cia: "CIA CREST",
+  frus: "Foreign Relations of the United States",
+  kissinger: "Kissinger Telephone Conversations",
+  un: "UN Archives",
+  worldbank: "World Bank Archives",
+  cabinet: "UK Cabinet Papers",
+  nato: "NATO Archives",
+  clinton: "Clinton Emails",
+} as const;
+
+export const CLASSIFICATION_LABELS = {
+  "unclassified": "Unclassified",
+  "limited official use": "Limited Official Use",
+  "confidential": "Confidential",
+  "secret": "Secret",
+  "top secret": "Top Secret",
+} as const;
+
+export const DOCUMENT_TYPE_LABELS = {
+  telegram: "Telegram",
+  memorandum: "Memorandum",
+  email: "Email",
+  report: "Report",
+  briefing: "Briefing",
+  telcon: "Telephone Conversation",
+  minutes: "Meeting Minutes",
+  letter: "Letter",
+} as const;
+
+export const SEARCH_MODE_LABELS = {
+  semantic: "Semantic",
+  keyword: "Exact match",
+  hybrid: "Hybrid",
+} as const;
+
+export type CorpusType = keyof typeof CORPUS_LABELS;
+export type ClassificationType = keyof typeof CLASSIFICATION_LABELS;
+export type DocType = keyof typeof DOCUMENT_TYPE_LABELS;
+
+// Error codes returned when the vector search service fails, with display messages
+export const SEARCH_ERROR_MESSAGES = {
+  search_timeout: "The search service took too long to respond. Please try again.",
+  search_unavailable: "Search service unavailable, retrying shortly.",
+  search_failed: "The search service returned an error.",
+} as const;
+
+export type SearchErrorCode = keyof typeof SEARCH_ERROR_MESSAGES;
+
+// Kinds of named entities indexed from search results, with display labels
+export const ENTITY_TYPE_LABELS = {
+  person: "People",
+  organization: "Organizations",
+  place: "Places",
+} as const;
+
+export type EntityType = keyof typeof ENTITY_TYPE_LABELS;
+
+// A named entity aggregated across the documents surfaced in a conversation
+export interface EntityIndexEntry {
+  name: string;
+  type: EntityType;
+  document_count: number;
+  mentions: number;
+  r2Keys: string[];
+}
+
+// A quote in an assistant reply checked against the text of the document cited after it
+export interface QuoteCheck {
+  quote: string;
+  r2Key: string;
+  verified: boolean;
+  // Share of the quote's word sequences found in the document, from 0 to 1
+  score: number;
+}
+
+// Arguments of the search tools (queryCollection, batchQueryCollection, findRelatedDocuments, buildTimeline) as shown while they run
+export interface SearchToolArgs {
+  query?: string;
+  queries?: Array<{ query?: string }>;
+  r2Key?: string;
+  mode?: string;
+  corpus?: string[];
+  classification?: string[];
+  doc_type?: string[];
+  authored_period?: string;
+  authored_start_year_month?: string;
+  authored_end_year_month?: string;
+  authored_start_year_month_day?: string;
+  authored_end_year_month_day?: string;
+  start_year_month?: string;
+  end_year_month?: string;
+}
+
+// A document in the results of the search tools
+export interface SearchResultDocument {
+  document_id: string;
+  file_info?: {
+    r2Key?: string;
+    metadata?: {
+      title?: string;
+      [key: string]: unknown;
+    };
+  };
+  // Indexes of the batchQueryCollection sub-queries that returned the document
+  matched_queries?: number[];
+  [key: string]: unknown;
+}
+
+// A date bucket in the results of the buildTimeline tool
+export interface TimelineBucket {
+  label: string;
+  start_year_month: string;
+  end_year_month: string;
+  status: string;
+  documents: SearchResultDocument[];
+}
+
+// A passage in the results of the askDocument tool
+export interface DocumentPassage {
+  chunk_id: string;
+  text: string;
+  score?: number | null;
+  start_char?: number | null;
+  end_char?: number | null;
+  page?: number | null;
+}
+
+// Result of a search tool; errors carry a code and message instead of results
+export interface SearchToolResult {
+  status?: string;
+  error?: string;
+  message?: string;
+  // queryCollection, batchQueryCollection and findRelatedDocuments
+  documents?: SearchResultDocument[];
+  total_chunks?: number;
+  sub_queries?: Array<{ index: number, query: string }>;
+  pagination?: {
+    offset?: number;
+    has_more?: boolean;
+    next_cursor?: string;
+  };
+  // buildTimeline
+  buckets?: TimelineBucket[];
+  // askDocument
+  r2Key?: string;
+  title?: string;
+  passages?: DocumentPassage[];
+}
+
+// State synced from the Chat agent to connected clients
+export interface ChatState {
+  entities: EntityIndexEntry[];
+  // Whether the conversation uses the larger deep research model
+  deepResearch?: boolean;
+  // Set when older messages were summarized to keep the history sent to the model within its budget
+  historySummary?: {
+    // The newest summarized message, after which the chat shows an "earlier context summarized" marker
+    throughMessageId: string;
+    summarizedMessages: number;
+  };
+  // Quotes checked against their cited documents, by assistant message ID
+  quoteChecks?: Record<string, QuoteCheck[]>;
+}
+
 // Logging configuration
 export const LOG_LEVEL = {
   DEBUG: "debug",
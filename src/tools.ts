@@ -7,8 +7,33 @@
 import { tool } from "ai";
 import { z } from "zod";
 
-import { agentContext, type Env } from "./server";
-import { logDebug, logInfo, logError } from "./shared"; 
+import { agentContext, type CreditReservation, type Env, type SearchDocument } from "./server";
+import {
+  DEFAULT_TOP_K, MAX_TOP_K, MAX_SEARCH_DEPTH, HYBRID_CANDIDATE_MULTIPLIER, MAX_HYBRID_CANDIDATES,
+  DOCUMENT_TEXT_WINDOW, MAX_DOCUMENT_TEXT_WINDOW, APPROVED_DOCUMENT_PREFIXES,
+  DEFAULT_DOCUMENT_PASSAGES, MAX_DOCUMENT_PASSAGES, MAX_RELATED_DATE_WINDOW_MONTHS,
+  DEFAULT_TIMELINE_DOCS_PER_BUCKET, MAX_TIMELINE_DOCS_PER_BUCKET, MAX_TIMELINE_BUCKETS,
+  DEFAULT_ENTITY_LIMIT, MAX_ENTITY_INDEX_SIZE, MAX_BATCH_QUERIES
+} from "./server/config";
+import {
+  buildDateBuckets, buildSearchFilters, decodeSearchCursor, encodeSearchCursor, getAuthoredDate, getDateWindow, getSearchScope
+} from "./server/utils/search-utils";
+import { findChunk, getDocumentKeys } from "./server/utils/message-utils";
+import { getPageNumber, locateChunk, sliceAroundChunk, sliceByCharacters, sliceByPages } from "./server/utils/document-utils";
+import { fuseSearchResults, fuseSubQueryResults, toSemanticQuery } from "./server/utils/hybrid-search";
+import { readDocumentMetadata } from "./server/utils/document-metadata";
+import { buildEntityIndex } from "./server/utils/entity-utils";
+import { normalizeDateFilters } from "./server/utils/date-utils";
+import {
+  logDebug, logInfo, logError,
+  CORPUS_LABELS, CLASSIFICATION_LABELS, DOCUMENT_TYPE_LABELS,
+  type CorpusType, type ClassificationType, type DocType
+} from "./shared"; 
+
+// Allowed values for the metadata filters of the search tools
+const CORPUS_VALUES = Object.keys(CORPUS_LABELS) as [CorpusType, ...CorpusType[]];
+const CLASSIFICATION_VALUES = Object.keys(CLASSIFICATION_LABELS) as [ClassificationType, ...ClassificationType[]];
+const DOC_TYPE_VALUES = Object.keys(DOCUMENT_TYPE_LABELS) as [DocType, ...DocType[]];
 
 function getAgent() {
   const agent = agentContext.getStore();
@@ -34,30 +59,248 @@ const testTool = tool({
   },
 });
 
+// Returned when a tool is asked to read a document the conversation hasn't surfaced
+const NOT_PERMITTED_ERROR = {
+  status: "error",
+  error: "not_permitted",
+  message: "This document was not returned by any search in this conversation. Use an r2Key exactly as returned by queryCollection."
+};
+
+/**
+ * Check whether a document may be read: it must have been surfaced by a search
+ * in this conversation or live under an approved prefix
+ */
+function isDocumentPermitted(surfacedDocuments: SearchDocument[], r2Key: string): boolean {
+  return getDocumentKeys(surfacedDocuments).has(r2Key) ||
+    APPROVED_DOCUMENT_PREFIXES.some(prefix => r2Key.startsWith(prefix));
+}
+
 /**
  * Get the text of a given document from the R2 bucket using the file key path
+ * 
+ * Long documents are read incrementally, by one of (in order of precedence):
+ * - chunk_id: the passage around a chunk surfaced by queryCollection, with some context
+ * - start_page/end_page: a page range (pages are separated by form feeds in the extracted text)
+ * - start_char/max_chars: a character window (defaults to the first DOCUMENT_TEXT_WINDOW characters)
+ * Each response reports the slice position, total length and page count so the model can continue reading.
+ * 
+ * Only documents surfaced by a search in this conversation (or under an approved prefix) can be read,
+ * so invented or injected r2Keys can't be used to read arbitrary objects from the bucket.
  */
 const getDocumentText = tool({
-  description: "get the text of a given document from the R2 bucket",
-  parameters: z.object({ r2Key: z.string() }),
-  execute: async ({ r2Key }) => {
-    logInfo("getDocumentText", `Getting document text for document: ${r2Key}`);
+  description: "Get the text of a given document from the R2 bucket. Returns one slice at a time (by chunk, page range or character window) together with the total length, so long documents can be read incrementally.",
+  parameters: z.object({
+    r2Key: z.string().describe("The r2Key of the document, as returned by queryCollection"),
+    chunk_id: z.string().optional().describe("Return the passage around this chunk ID (from a queryCollection result's chunks) with surrounding context"),
+    start_page: z.number().int().positive().optional().describe("First page to return (1-based)"),
+    end_page: z.number().int().positive().optional().describe("Last page to return, inclusive (defaults to start_page)"),
+    start_char: z.number().int().min(0).optional().describe("Offset of the first character to return; use next_start_char from a previous response to continue reading"),
+    max_chars: z.number().int().positive().optional().describe(`Maximum number of characters to return (default ${DOCUMENT_TEXT_WINDOW}, maximum ${MAX_DOCUMENT_TEXT_WINDOW})`)
+  }),
+  execute: async ({ r2Key, chunk_id, start_page, end_page, start_char, max_chars }) => {
+    logInfo("getDocumentText", `Getting document text for document: ${r2Key}`, { chunk_id, start_page, end_page, start_char, max_chars });
 
+    let credits: CreditReservation | null = null;
     try {
       const agent = getAgent();
+
+      // Only read documents the conversation has actually surfaced
+      const surfacedDocuments = agent.getSurfacedDocuments();
+      if (!isDocumentPermitted(surfacedDocuments, r2Key)) {
+        logInfo("getDocumentText", "Rejected document not surfaced in this conversation", { r2Key });
+        return NOT_PERMITTED_ERROR;
+      }
+
+      const surfaced = chunk_id ? findChunk(surfacedDocuments, chunk_id) : null;
+      if (chunk_id && !surfaced) {
+        return { error: "Chunk not found", message: `Chunk ${chunk_id} was not returned by any search in this conversation.` };
+      }
+
+      const reservation = await agent.reserveCredits("getDocumentText");
+      if ("error" in reservation) {
+        return reservation;
+      }
+      credits = reservation;
+
       const bucket = agent.getBucket();
       const file = await bucket.get(r2Key);
       if (!file) {
+        await agent.refundCredits(credits);
         return { error: "File not found" };
       }
       const text = await file.text();
-      return text;
+
+      // Read the passage around a chunk surfaced earlier in the conversation
+      if (surfaced) {
+        const slice = sliceAroundChunk(text, surfaced.chunk.text || '', max_chars);
+        if (!slice) {
+          // Fall back to the chunk text itself when it can't be located in the source
+          logInfo("getDocumentText", "Chunk text not located in document, returning chunk text only", { r2Key, chunk_id });
+          return { r2Key, chunk_id, text: surfaced.chunk.text || '', located: false, total_chars: text.length };
+        }
+        return { r2Key, chunk_id, ...slice };
+      }
+
+      // Read a page range
+      if (start_page) {
+        const slice = sliceByPages(text, start_page, end_page, max_chars);
+        if (!slice) {
+          await agent.refundCredits(credits);
+          return { error: "Page out of range", message: `The document has fewer than ${start_page} pages.` };
+        }
+        return { r2Key, ...slice };
+      }
+
+      // Read a character window
+      if (start_char !== undefined && start_char >= text.length) {
+        await agent.refundCredits(credits);
+        return { error: "Offset out of range", message: `start_char must be less than the document length (${text.length}).` };
+      }
+      return { r2Key, ...sliceByCharacters(text, start_char, max_chars) };
     } catch (error) {      
-      logError("getDocumentText", "Error getting document text", error);
+      logError("getDocumentText", "Error getting document text", error, { r2Key, chunk_id, start_page, end_page, start_char, max_chars });
+      if (credits) {
+        await getAgent().refundCredits(credits);
+      }
       return { error: "Failed to get document text" };
     }
   },
 });
+/**
+ * Get the descriptive metadata of a document without reading its text
+ * 
+ * Reads the R2 object's customMetadata and sidecar JSON, falling back to the metadata the vector
+ * search returned, so questions about authorship, dates or length don't need the full body.
+ */
+const getDocumentMetadata = tool({
+  description: "Get a document's metadata (title, authored date, classification, corpus, from/to, page count) without reading its text",
+  parameters: z.object({
+    r2Key: z.string().describe("The r2Key of the document, as returned by queryCollection")
+  }),
+  execute: async ({ r2Key }) => {
+    logInfo("getDocumentMetadata", `Getting metadata for ${r2Key}`);
+
+    try {
+      const agent = getAgent();
+
+      // Only describe documents the conversation has actually surfaced
+      const surfacedDocuments = agent.getSurfacedDocuments();
+      if (!isDocumentPermitted(surfacedDocuments, r2Key)) {
+        logInfo("getDocumentMetadata", "Rejected document not surfaced in this conversation", { r2Key });
+        return NOT_PERMITTED_ERROR;
+      }
+
+      const searchMetadata = surfacedDocuments.find(doc => doc.file_info?.r2Key === r2Key)?.file_info?.metadata;
+      const metadata = await readDocumentMetadata(agent.getBucket(), r2Key, searchMetadata);
+      if (!metadata) {
+        return { status: "error", error: "Document not found" };
+      }
+
+      return { status: "success", r2Key, ...metadata };
+    } catch (error) {
+      logError("getDocumentMetadata", "Error getting document metadata", error, { r2Key });
+      return { status: "error", error: "Failed to get document metadata" };
+    }
+  },
+});
+
+/**
+ * Answer a question from within a single document
+ * 
+ * Runs the question as a vector search restricted to the document's doc_id (the same filter path
+ * queryCollection uses for in-document searches) and returns only the best matching passages,
+ * located in the full text with character offsets, instead of the whole document.
+ */
+const askDocument = tool({
+  description: "Find the passages of a single document (by r2Key) that best answer a question. Returns short passages with character offsets instead of the full text. Prefer this over getDocumentText for long documents.",
+  parameters: z.object({
+    r2Key: z.string().describe("The r2Key of the document, as returned by queryCollection"),
+    question: z.string().describe("The question to answer from the document, phrased like the text you expect to find"),
+    max_passages: z.number().int().positive().optional().describe(`Maximum number of passages to return (default ${DEFAULT_DOCUMENT_PASSAGES}, maximum ${MAX_DOCUMENT_PASSAGES})`)
+  }),
+  execute: async ({ r2Key, question, max_passages }) => {
+    logInfo("askDocument", `Asking document ${r2Key}: ${question}`);
+
+    let credits: CreditReservation | null = null;
+    try {
+      const agent = getAgent();
+
+      // Only search documents the conversation has actually surfaced
+      const surfacedDocuments = agent.getSurfacedDocuments();
+      if (!isDocumentPermitted(surfacedDocuments, r2Key)) {
+        logInfo("askDocument", "Rejected document not surfaced in this conversation", { r2Key });
+        return NOT_PERMITTED_ERROR;
+      }
+
+      // The doc_id filter needs the document's metadata from the search that surfaced it
+      const surfacedDocument = surfacedDocuments.find(doc => doc.file_info?.r2Key === r2Key);
+      const docId = surfacedDocument?.file_info?.metadata?.doc_id?.toString();
+      if (!docId) {
+        return { status: "error", error: "missing_doc_id", message: "The document ID for this r2Key is unknown. Use getDocumentText instead." };
+      }
+
+      const reservation = await agent.reserveCredits("askDocument");
+      if ("error" in reservation) {
+        return reservation;
+      }
+      credits = reservation;
+
+      const passageCount = Math.min(max_passages ?? DEFAULT_DOCUMENT_PASSAGES, MAX_DOCUMENT_PASSAGES);
+      const results = await agent.searchCollection(
+        "askDocument",
+        question,
+        agent.getConversationComponents().collectionId,
+        passageCount,
+        buildSearchFilters({ doc_id: docId })
+      );
+
+      if (results?.error || !Array.isArray(results?.documents)) {
+        logError("askDocument", "Error searching within document", results?.error, { r2Key, docId, question });
+        await agent.refundCredits(credits);
+        return { status: "error", error: results?.error || "search_failed", message: results?.message || "Failed to search within the document." };
+      }
+
+      // Rank the chunks of the matching document(s) by score
+      const chunks = results.documents
+        .flatMap(doc => doc.chunks || [])
+        .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+        .slice(0, passageCount);
+
+      // Locate each passage in the full text so it can be quoted and read in context
+      const file = await agent.getBucket().get(r2Key);
+      const text = file ? await file.text() : '';
+      const passages = chunks.map(chunk => {
+        const startChar = text ? locateChunk(text, chunk.text || '') : -1;
+        return {
+          chunk_id: chunk.id,
+          text: chunk.text || '',
+          score: chunk.score ?? null,
+          start_char: startChar === -1 ? null : startChar,
+          end_char: startChar === -1 ? null : startChar + (chunk.text || '').trim().length,
+          page: startChar === -1 ? null : getPageNumber(text, startChar)
+        };
+      });
+
+      logInfo("askDocument", `Found ${passages.length} passages`, { r2Key, docId });
+      return {
+        status: "success",
+        r2Key,
+        doc_id: docId,
+        title: surfacedDocument?.file_info?.metadata?.title || docId,
+        question,
+        total_chars: text ? text.length : null,
+        passages
+      };
+    } catch (error) {
+      logError("askDocument", "Error answering question from document", error, { r2Key, question, max_passages });
+      if (credits) {
+        await getAgent().refundCredits(credits);
+      }
+      return { status: "error", error: "Failed to search within the document" };
+    }
+  },
+});
+
 /**
  * Query a given collection using a vector search
  * 
@@ -65,6 +308,12 @@ const getDocumentText = tool({
  * - Use query for the semantic search text (craft this carefully for best results)
  * - Filter by doc_id when looking for information within a specific document
  * - Filter by authored date range to find documents from specific time periods
+ * - Filter by source corpus, classification level and document type
+ * - Use topK to request more results for deep-dive research (capped at MAX_TOP_K)
+ * - Use cursor (next_cursor from a previous result) to fetch the next page of the same query
+ * - Use mode 'keyword' or 'hybrid' to match exact strings (quoted phrases) in the chunk text
+ * 
+ * The collection searched is the one encoded in the conversation ID (agent name).
  * 
  * IMPORTANT QUERYING STRATEGY:
  * For best results, break down complex queries into multiple separate searches.
@@ -83,148 +332,528 @@ const getDocumentText = tool({
  *   4. "Diplomatic negotiations communications Soviet Union Cuban Missile Crisis resolution"
  */
 const queryCollection = tool({
-  description: "Perform semantic searches through historical document collections. For complex topics, make MULTIPLE separate tool calls with focused queries. Use narrow date ranges (e.g., ~5 years) when possible, as wider ranges increase error likelihood.",
+  description: "Perform semantic, keyword or hybrid searches through historical document collections. For complex topics, make MULTIPLE separate tool calls with focused queries. Use narrow date ranges (e.g., ~5 years) when possible, as wider ranges increase error likelihood.",
   parameters: z.object({ 
     // collectionId: z.string().describe("Collection ID to search within (use 'history-lab-2' unless instructed otherwise)"),
     query: z.string().describe("The semantic search query text - make focused, specific queries rather than combining multiple topics"),
+    mode: z.enum(["semantic", "keyword", "hybrid"]).optional().describe(`Ranking mode: 'semantic' (default) for meaning-based search, 'keyword' for exact strings such as telegram numbers, cable IDs or code names (put them in double quotes in the query), 'hybrid' to combine both. Keyword matching only re-ranks the top ${MAX_HYBRID_CANDIDATES} semantic candidates, so a keyword miss doesn't mean the string is absent from the archive.`),
+    topK: z.number().int().positive().optional().describe(`Number of results to return (default ${DEFAULT_TOP_K}, maximum ${MAX_TOP_K}). Only raise this for deep-dive research on a narrow topic.`),
+    cursor: z.string().optional().describe("Continuation cursor (next_cursor) from a previous queryCollection result. Pass it with the SAME query, mode, filters and topK to fetch the next page of results."),
     doc_id: z.string().optional().describe("Filter by specific document ID when looking for more information within a document"),
-    authored_start_year_month: z.string().optional().describe("Start year and month for filtering documents (format: 'YYYY-MM' as string). Preferred for most searches as it's more efficient."),
-    authored_end_year_month: z.string().optional().describe("End year and month for filtering documents (format: 'YYYY-MM' as string). Preferred for most searches as it's more efficient."),
+    corpus: z.array(z.enum(CORPUS_VALUES)).optional().describe(`Restrict to one or more source collections: ${Object.entries(CORPUS_LABELS).map(([key, label]) => `'${key}' (${label})`).join(", ")}`),
+    classification: z.array(z.enum(CLASSIFICATION_VALUES)).optional().describe("Restrict to one or more classification levels"),
+    doc_type: z.array(z.enum(DOC_TYPE_VALUES)).optional().describe("Restrict to one or more document types"),
+    authored_period: z.string().optional().describe("A single period to search within, resolved server-side into a date range: a year ('1973'), a season ('spring 1961'), a month ('March 1962'), a quarter ('Q4 1962') or a well-known event ('Cuban Missile Crisis'). Start/end parameters override its bounds."),
+    authored_start_year_month: z.string().optional().describe("Start year and month for filtering documents (format: 'YYYY-MM' as string). Preferred for most searches as it's more efficient. A season or well-known event is also accepted and resolves to its start."),
+    authored_end_year_month: z.string().optional().describe("End year and month for filtering documents (format: 'YYYY-MM' as string). Preferred for most searches as it's more efficient. A season or well-known event is also accepted and resolves to its end."),
     authored_start_year_month_day: z.string().optional().describe("Start date for filtering documents (format: 'YYYY-MM-DD' as string). Only use for highly specific date-sensitive searches."),
     authored_end_year_month_day: z.string().optional().describe("End date for filtering documents (format: 'YYYY-MM-DD' as string). Only use for highly specific date-sensitive searches.")
   }),
-  execute: async ({ query, doc_id, authored_start_year_month, authored_end_year_month, authored_start_year_month_day, authored_end_year_month_day }) => {
+  execute: async ({ query, mode = "semantic", topK, cursor, doc_id, corpus, classification, doc_type, authored_period, authored_start_year_month, authored_end_year_month, authored_start_year_month_day, authored_end_year_month_day }) => {
     // Log the search parameters
     logInfo(
       "queryCollection", 
-      `Querying collection: history-lab-1 with query: ${query}` + 
+      `Querying collection with query: ${query}` + 
+      (mode !== "semantic" ? `, mode: ${mode}` : "") +
+      (topK ? `, topK: ${topK}` : "") +
+      (cursor ? `, cursor: ${cursor}` : "") +
       (doc_id ? `, doc_id: ${doc_id}` : "") +
+      (corpus?.length ? `, corpus: ${corpus.join("/")}` : "") +
+      (classification?.length ? `, classification: ${classification.join("/")}` : "") +
+      (doc_type?.length ? `, doc_type: ${doc_type.join("/")}` : "") +
+      (authored_period ? `, authored_period: ${authored_period}` : "") +
       (authored_start_year_month ? `, authored_year_month from: ${authored_start_year_month}` : "") +
       (authored_end_year_month ? `, to: ${authored_end_year_month}` : "") +
       (authored_start_year_month_day ? `, authored_year_month_day from: ${authored_start_year_month_day}` : "") +
       (authored_end_year_month_day ? `, to: ${authored_end_year_month_day}` : "")
     );
 
+    let credits: CreditReservation | null = null;
     try {
       const agent = getAgent();
-      const vectorizeSearch = agent.getVectorizeSearch();
 
-      // Check balance of credits for the user
+      // Clamp the requested result count to the server-side ceiling
+      const k = Math.min(topK ?? DEFAULT_TOP_K, MAX_TOP_K);
 
-      const k = 5;
-      
-      // Build filters for the search
-      const filters: Record<string, any> = {};
-      
-      // Add document ID filter if specified
-      if (doc_id) {
-        filters.doc_id = doc_id;
+      // Validate the date parameters and resolve seasons and named events into a range
+      const dateFilters = normalizeDateFilters({
+        authored_period,
+        authored_start_year_month,
+        authored_end_year_month,
+        authored_start_year_month_day,
+        authored_end_year_month_day
+      });
+      if ('error' in dateFilters) {
+        logInfo("queryCollection", "Rejected invalid date filters", dateFilters.error);
+        return dateFilters.error;
       }
-      
-      // Helper function to convert date strings to numeric format
-      const convertYearMonthToNumber = (dateStr: string): number => {
-        // Extract YYYY and MM parts from YYYY-MM format
-        const [year, month] = dateStr.split('-');
-        // Return YYYYMM as number
-        return parseInt(`${year}${month}`, 10);
-      };
-      
-      const convertYearMonthDayToNumber = (dateStr: string): number => {
-        // Remove all hyphens to convert YYYY-MM-DD to YYYYMMDD
-        const numStr = dateStr.replace(/-/g, '');
-        return parseInt(numStr, 10);
-      };
-      
-      // Check if year-month-day parameters are provided
-      const hasYearMonthDayParams = authored_start_year_month_day || authored_end_year_month_day;
-      
-      // Add year_month_day date range filters if specified (priority over year_month)
-      if (hasYearMonthDayParams) {
-        filters.authored_year_month_day = {};
-        
-        // Check if start and end are the same - use $eq instead of range
-        if (authored_start_year_month_day && authored_end_year_month_day && 
-            authored_start_year_month_day === authored_end_year_month_day) {
-          filters.authored_year_month_day.$eq = convertYearMonthDayToNumber(authored_start_year_month_day);
-        } else {
-          // Use range operators when values are different
-          if (authored_start_year_month_day) {
-            filters.authored_year_month_day.$gte = convertYearMonthDayToNumber(authored_start_year_month_day);
-          }
-          
-          if (authored_end_year_month_day) {
-            filters.authored_year_month_day.$lte = convertYearMonthDayToNumber(authored_end_year_month_day);
-          }
+
+      // Build filters for the search
+      const filters = buildSearchFilters({
+        doc_id,
+        corpus,
+        classification,
+        doc_type,
+        ...dateFilters.filters
+      });
+
+      // Resolve the page position from the continuation cursor, which only continues the search it came from
+      const scope = getSearchScope(filters, k);
+      let offset = 0;
+      if (cursor) {
+        const decodedCursor = decodeSearchCursor(cursor);
+        if (!decodedCursor) {
+          logInfo("queryCollection", "Rejected invalid cursor", { cursor, query });
+          return {
+            status: "error",
+            error: "invalid_cursor",
+            message: "The cursor is invalid. Pass next_cursor exactly as a previous result returned it, or omit the cursor to start over."
+          };
         }
-      } 
-      // Only use year_month filters if year_month_day is not provided
-      else if (authored_start_year_month || authored_end_year_month) {
-        filters.authored_year_month = {};
-        
-        // Check if start and end are the same - use $eq instead of range
-        if (authored_start_year_month && authored_end_year_month && 
-            authored_start_year_month === authored_end_year_month) {
-          filters.authored_year_month.$eq = convertYearMonthToNumber(authored_start_year_month);
-        } else {
-          // Use range operators when values are different
-          if (authored_start_year_month) {
-            filters.authored_year_month.$gte = convertYearMonthToNumber(authored_start_year_month);
-          }
-          
-          if (authored_end_year_month) {
-            filters.authored_year_month.$lte = convertYearMonthToNumber(authored_end_year_month);
-          }
+        if (decodedCursor.query !== query || decodedCursor.mode !== mode || decodedCursor.scope !== scope) {
+          logInfo("queryCollection", "Rejected cursor from a different search", { cursor, query, mode, scope });
+          return {
+            status: "error",
+            error: "cursor_mismatch",
+            message: "The cursor belongs to a different search. Repeat the exact query, mode, filters and topK of the result that returned it, or omit the cursor to start over."
+          };
         }
+        offset = decodedCursor.offset;
       }
+
+      if (offset >= MAX_SEARCH_DEPTH) {
+        return {
+          status: "success",
+          documents: [],
+          pagination: { offset, page_size: k, has_more: false },
+          message: `No further pages: paging is limited to the top ${MAX_SEARCH_DEPTH} results. Refine the query or filters instead.`
+        };
+      }
+
+      // Fetch everything up to the end of the requested page, then slice the page out
+      const depth = Math.min(offset + k, MAX_SEARCH_DEPTH);
+
+      // Keyword and hybrid modes re-rank a wider pool of semantic candidates by exact matches
+      const candidateCount = mode === "semantic" ? depth : Math.min(depth * HYBRID_CANDIDATE_MULTIPLIER, MAX_HYBRID_CANDIDATES);
+      const semanticQuery = mode === "semantic" ? query : toSemanticQuery(query);
       
-      // Always use the history-lab-1 collection ID
-      const finalCollectionId = "80650a98-fe49-429a-afbd-9dde66e2d02b"; // history-lab-1
+      // Search the collection encoded in the conversation ID
+      const finalCollectionId = agent.getConversationComponents().collectionId;
       
       // Log the complete search request for debugging
       logDebug("queryCollection", `Search request: {
-        queries: "${query}",
+        queries: "${semanticQuery}",
         collection_id: "${finalCollectionId}",
-        topK: ${k},
+        topK: ${candidateCount},
         filters: ${JSON.stringify(filters)}
       }`);
       
       // Create the request object for the new API format
       const request = {
-        queries: query,
+        queries: semanticQuery,
         collection_id: finalCollectionId,
-        topK: k,
+        topK: candidateCount,
         filters: Object.keys(filters).length > 0 ? filters : undefined
       };
       
+      // Reserve the user's credits for the search
+      const reservation = await agent.reserveCredits("queryCollection");
+      if ("error" in reservation) {
+        return reservation;
+      }
+      credits = reservation;
+
       // Call the vector search with parameters using the new format
-      const results = await vectorizeSearch.findSimilarEmbeddings(
+      const results = await agent.searchCollection(
+        "queryCollection",
         request.queries,
         request.collection_id,
         request.topK,
         request.filters
       );
 
-      // Check for error
+      // Check for error, giving back the credits of the failed search
       if (results?.error) {
-        logError("queryCollection", `Error querying collection`, results.error, { query, doc_id, authored_start_year_month, authored_end_year_month, authored_start_year_month_day, authored_end_year_month_day });        
+        logError("queryCollection", `Error querying collection`, results.error, { query, mode, topK, cursor, doc_id, corpus, classification, doc_type, authored_period, authored_start_year_month, authored_end_year_month, authored_start_year_month_day, authored_end_year_month_day });        
+        await agent.refundCredits(credits);
       }     
       
-      // Decrement the balance of credits for the user
-      
+      if (!Array.isArray(results?.documents)) {
+        logInfo("queryCollection", "Search returned no documents array", { status: results?.status });
+        return results;
+      }
+
+      // Fuse semantic and exact-match rankings for keyword and hybrid searches
+      const rankedDocuments = mode === "semantic" ? results.documents : fuseSearchResults(results.documents, query, mode);
+
+      // Slice out the requested page; later pages also skip documents already shown in the conversation
+      const surfacedKeys = cursor ? getDocumentKeys(agent.getSurfacedDocuments()) : new Set<string>();
+      const pageDocuments = rankedDocuments
+        .slice(offset, depth)
+        .filter(doc => !doc.file_info?.r2Key || !surfacedKeys.has(doc.file_info.r2Key));
+      const hasMore = depth < MAX_SEARCH_DEPTH &&
+        (mode === "semantic" ? results.documents.length >= depth : rankedDocuments.length > depth);
+
+      // Remember the returned documents so later tool calls in this turn can use them
+      agent.recordSurfacedDocuments(pageDocuments);
+
       // Log the number of results returned
-      logInfo("queryCollection", `Search returned ${results?.matches?.length || 0} results`);
+      logInfo("queryCollection", `Search returned ${pageDocuments.length} results`, { mode, offset, depth, skippedAsSeen: rankedDocuments.slice(offset, depth).length - pageDocuments.length });
       
       // Log detailed results for debugging
       logDebug("queryCollection", `Results: ${JSON.stringify(results)}`);
-      return results;
+      return {
+        ...results,
+        documents: pageDocuments,
+        // The date range actually searched, so the model can report how dates were interpreted
+        date_filters: Object.values(dateFilters.filters).some(Boolean) ? dateFilters.filters : undefined,
+        // Keyword matching has no full-text index, so a miss only covers the candidates searched
+        message: mode === "keyword" && rankedDocuments.length === 0
+          ? `No exact match among the top ${candidateCount} semantic candidates. The string may still be in the archive: try a semantic query describing the document, or narrow the date range or filters.`
+          : results.message,
+        pagination: {
+          offset,
+          page_size: k,
+          has_more: hasMore,
+          next_cursor: hasMore ? encodeSearchCursor({ offset: depth, query, mode, scope }) : undefined
+        }
+      };
     } catch (error) {
       // logDebug("queryCollection", `Error querying collection: ${error}`);
-      logError("queryCollection", "Error querying collection", error, { query, doc_id, authored_start_year_month, authored_end_year_month, authored_start_year_month_day, authored_end_year_month_day });
+      logError("queryCollection", "Error querying collection", error, { query, mode, topK, cursor, doc_id, corpus, classification, doc_type, authored_period, authored_start_year_month, authored_end_year_month, authored_start_year_month_day, authored_end_year_month_day });
+      if (credits) {
+        await getAgent().refundCredits(credits);
+      }
       return { error: "Failed to query collection" };
     }
   },
 });
 
+/**
+ * Run several focused sub-queries in one call and fuse their results
+ * 
+ * Each sub-query carries its own date filters and runs in parallel against the vector search.
+ * Documents are deduplicated by doc_id and ranked by reciprocal rank fusion, and each document
+ * lists the sub-queries that found it, so one tool call replaces a series of queryCollection steps.
+ */
+const batchQueryCollection = tool({
+  description: `Run up to ${MAX_BATCH_QUERIES} focused semantic searches in parallel, each with its own date filters, and get one deduplicated, fused list of documents annotated with the sub-queries that matched them. Prefer this over several consecutive queryCollection calls when a question breaks down into independent searches.`,
+  parameters: z.object({
+    queries: z.array(z.object({
+      query: z.string().describe("A focused semantic search query"),
+      authored_period: z.string().optional().describe("Period for this sub-query: a year, season, month, quarter or well-known event"),
+      authored_start_year_month: z.string().optional().describe("Start year and month for this sub-query (format: 'YYYY-MM')"),
+      authored_end_year_month: z.string().optional().describe("End year and month for this sub-query (format: 'YYYY-MM')"),
+      authored_start_year_month_day: z.string().optional().describe("Start date for this sub-query (format: 'YYYY-MM-DD')"),
+      authored_end_year_month_day: z.string().optional().describe("End date for this sub-query (format: 'YYYY-MM-DD')")
+    })).min(1).max(MAX_BATCH_QUERIES).describe("The sub-queries to run"),
+    topK: z.number().int().positive().optional().describe(`Number of fused documents to return (default ${DEFAULT_TOP_K * 2}, maximum ${MAX_TOP_K})`),
+    corpus: z.array(z.enum(CORPUS_VALUES)).optional().describe("Restrict every sub-query to one or more source collections"),
+    classification: z.array(z.enum(CLASSIFICATION_VALUES)).optional().describe("Restrict every sub-query to one or more classification levels"),
+    doc_type: z.array(z.enum(DOC_TYPE_VALUES)).optional().describe("Restrict every sub-query to one or more document types")
+  }),
+  execute: async ({ queries, topK, corpus, classification, doc_type }) => {
+    logInfo("batchQueryCollection", `Running ${queries.length} sub-queries: ${queries.map(q => q.query).join(" | ")}`);
+
+    let credits: CreditReservation | null = null;
+    try {
+      const agent = getAgent();
+
+      // Validate every sub-query's dates before running any search
+      const subQueries = [];
+      for (const [index, subQuery] of queries.entries()) {
+        const dateFilters = normalizeDateFilters(subQuery);
+        if ('error' in dateFilters) {
+          logInfo("batchQueryCollection", "Rejected invalid date filters", { index, ...dateFilters.error });
+          return { ...dateFilters.error, query_index: index, message: `Sub-query ${index} ("${subQuery.query}"): ${dateFilters.error.message}` };
+        }
+        subQueries.push({ query: subQuery.query, dateFilters: dateFilters.filters });
+      }
+
+      // Reserve credits for every sub-query; those of failed sub-queries are given back
+      const reservation = await agent.reserveCredits("batchQueryCollection", subQueries.length);
+      if ("error" in reservation) {
+        return reservation;
+      }
+      credits = reservation;
+
+      // Every sub-query fetches as many documents as the fused list returns, so none is crowded out
+      const k = Math.min(topK ?? DEFAULT_TOP_K * 2, MAX_TOP_K);
+      const collectionId = agent.getConversationComponents().collectionId;
+
+      // Run the sub-queries in parallel; a failed sub-query is reported without failing the batch
+      const subQueryResults = await Promise.all(subQueries.map(async (subQuery, index) => {
+        const filters = buildSearchFilters({ corpus, classification, doc_type, ...subQuery.dateFilters });
+        try {
+          const results = await agent.searchCollection("batchQueryCollection", subQuery.query, collectionId, k, filters);
+          if (results?.error || !Array.isArray(results?.documents)) {
+            logError("batchQueryCollection", "Error running sub-query", results?.error, { index, query: subQuery.query });
+            return { status: "error", error: results?.error || "search_failed", message: results?.message, documents: [] };
+          }
+          return { status: "success", documents: results.documents };
+        } catch (error) {
+          logError("batchQueryCollection", "Error running sub-query", error, { index, query: subQuery.query });
+          return { status: "error", error: "search_failed", documents: [] };
+        }
+      }));
+
+      const documents = fuseSubQueryResults(subQueryResults.map(result => result.documents)).slice(0, k);
+      agent.recordSurfacedDocuments(documents);
+
+      const failedQueries = subQueryResults.filter(result => result.status === "error").length;
+      await agent.refundCredits(credits, failedQueries);
+      logInfo("batchQueryCollection", `Fused ${documents.length} documents`, { subQueries: subQueries.length, failedQueries });
+
+      // When every sub-query failed, report the search error so the UI can explain it
+      const firstFailure = subQueryResults.find(result => result.status === "error");
+
+      return {
+        status: failedQueries === 0 ? "success" : failedQueries < subQueries.length ? "partial_success" : "error",
+        ...(failedQueries === subQueries.length && firstFailure ? { error: firstFailure.error, message: firstFailure.message } : {}),
+        sub_queries: subQueries.map((subQuery, index) => ({
+          index,
+          query: subQuery.query,
+          status: subQueryResults[index].status,
+          error: subQueryResults[index].error,
+          document_count: subQueryResults[index].documents.length,
+          date_filters: Object.values(subQuery.dateFilters).some(Boolean) ? subQuery.dateFilters : undefined
+        })),
+        documents
+      };
+    } catch (error) {
+      logError("batchQueryCollection", "Error running batch search", error, { queries, topK });
+      if (credits) {
+        await getAgent().refundCredits(credits);
+      }
+      return { status: "error", error: "Failed to run batch search" };
+    }
+  },
+});
+
+/**
+ * Find documents related to one the user found valuable ("more like this")
+ * 
+ * Seeds a vector search with the text of a surfaced chunk (or the document's best matching chunk),
+ * optionally within a date window around the seed document, and drops every document the
+ * conversation has already surfaced so only new neighbours are returned.
+ */
+const findRelatedDocuments = tool({
+  description: "Find documents similar to a document or chunk already returned by queryCollection (e.g. the same cable thread, replies, or closely related reporting). Excludes documents already surfaced in this conversation.",
+  parameters: z.object({
+    r2Key: z.string().describe("The r2Key of the seed document, as returned by queryCollection"),
+    chunk_id: z.string().optional().describe("ID of a specific chunk of the seed document to use as the seed (defaults to its best matching chunk)"),
+    date_window_months: z.number().int().positive().optional().describe(`Only return documents authored within this many months of the seed document (maximum ${MAX_RELATED_DATE_WINDOW_MONTHS})`),
+    topK: z.number().int().positive().optional().describe(`Number of related documents to return (default ${DEFAULT_TOP_K}, maximum ${MAX_TOP_K})`)
+  }),
+  execute: async ({ r2Key, chunk_id, date_window_months, topK }) => {
+    logInfo("findRelatedDocuments", `Finding documents related to ${r2Key}${chunk_id ? `, chunk_id: ${chunk_id}` : ""}`);
+
+    let credits: CreditReservation | null = null;
+    try {
+      const agent = getAgent();
+
+      // Only seed from documents the conversation has actually surfaced
+      const surfacedDocuments = agent.getSurfacedDocuments();
+      if (!isDocumentPermitted(surfacedDocuments, r2Key)) {
+        logInfo("findRelatedDocuments", "Rejected document not surfaced in this conversation", { r2Key });
+        return NOT_PERMITTED_ERROR;
+      }
+
+      const seedDocument = surfacedDocuments.find(doc => doc.file_info?.r2Key === r2Key);
+      const seedChunk = chunk_id
+        ? findChunk(surfacedDocuments, chunk_id)?.chunk
+        : [...(seedDocument?.chunks || [])].sort((a, b) => (b.score ?? 0) - (a.score ?? 0))[0];
+      const seedText = seedChunk?.text || seedDocument?.file_info?.metadata?.title?.toString();
+      if (!seedText) {
+        return { status: "error", error: "missing_seed", message: "No text is available for this document or chunk to search from." };
+      }
+
+      // Restrict to a window around the seed document's authored date, if requested and known
+      let dateFilters = {};
+      if (date_window_months) {
+        const authoredDate = getAuthoredDate(seedDocument?.file_info?.metadata);
+        if (!authoredDate) {
+          return { status: "error", error: "missing_date", message: "The seed document has no authored date, so a date window can't be applied. Retry without date_window_months." };
+        }
+        dateFilters = getDateWindow(authoredDate, Math.min(date_window_months, MAX_RELATED_DATE_WINDOW_MONTHS));
+      }
+
+      // Ask for enough candidates to still fill the page after dropping surfaced documents
+      const k = Math.min(topK ?? DEFAULT_TOP_K, MAX_TOP_K);
+      const excludedKeys = getDocumentKeys(surfacedDocuments);
+      excludedKeys.add(r2Key);
+      const candidateCount = Math.min(k + excludedKeys.size, MAX_SEARCH_DEPTH);
+
+      const reservation = await agent.reserveCredits("findRelatedDocuments");
+      if ("error" in reservation) {
+        return reservation;
+      }
+      credits = reservation;
+
+      const results = await agent.searchCollection(
+        "findRelatedDocuments",
+        seedText,
+        agent.getConversationComponents().collectionId,
+        candidateCount,
+        buildSearchFilters(dateFilters)
+      );
+
+      if (results?.error || !Array.isArray(results?.documents)) {
+        logError("findRelatedDocuments", "Error searching for related documents", results?.error, { r2Key, chunk_id });
+        await agent.refundCredits(credits);
+        return { status: "error", error: results?.error || "search_failed", message: results?.message || "Failed to search for related documents." };
+      }
+
+      const documents = results.documents
+        .filter(doc => !doc.file_info?.r2Key || !excludedKeys.has(doc.file_info.r2Key))
+        .slice(0, k);
+      agent.recordSurfacedDocuments(documents);
+
+      logInfo("findRelatedDocuments", `Found ${documents.length} related documents`, { r2Key, chunk_id });
+      return {
+        status: results.status || "success",
+        seed: { r2Key, chunk_id: seedChunk?.id ?? null },
+        date_window: Object.keys(dateFilters).length > 0 ? dateFilters : null,
+        documents
+      };
+    } catch (error) {
+      logError("findRelatedDocuments", "Error finding related documents", error, { r2Key, chunk_id, date_window_months, topK });
+      if (credits) {
+        await getAgent().refundCredits(credits);
+      }
+      return { status: "error", error: "Failed to find related documents" };
+    }
+  },
+});
+
+/**
+ * Build a timeline of the top documents for a query across consecutive date buckets
+ * 
+ * Runs the same query once per bucket using the authored_start_year_month/authored_end_year_month
+ * filters, so each period gets its own top documents instead of the most similar period
+ * crowding out the rest of the range.
+ */
+const buildTimeline = tool({
+  description: "Trace how a topic evolves over time: runs a query across consecutive date buckets (months, quarters or years) and returns the top documents for each bucket. Use for chronological questions such as how a position changed over a span of years.",
+  parameters: z.object({
+    query: z.string().describe("The semantic search query text, run unchanged in every bucket"),
+    start_year_month: z.string().describe("Start of the timeline (format: 'YYYY-MM')"),
+    end_year_month: z.string().describe("End of the timeline, inclusive (format: 'YYYY-MM')"),
+    granularity: z.enum(["month", "quarter", "year"]).optional().describe("Bucket width (default 'year'). Use 'quarter' or 'month' for spans of a few years or less."),
+    docs_per_bucket: z.number().int().positive().optional().describe(`Documents returned per bucket (default ${DEFAULT_TIMELINE_DOCS_PER_BUCKET}, maximum ${MAX_TIMELINE_DOCS_PER_BUCKET})`),
+    corpus: z.array(z.enum(CORPUS_VALUES)).optional().describe("Restrict to one or more source collections"),
+    classification: z.array(z.enum(CLASSIFICATION_VALUES)).optional().describe("Restrict to one or more classification levels"),
+    doc_type: z.array(z.enum(DOC_TYPE_VALUES)).optional().describe("Restrict to one or more document types")
+  }),
+  execute: async ({ query, start_year_month, end_year_month, granularity = "year", docs_per_bucket, corpus, classification, doc_type }) => {
+    logInfo("buildTimeline", `Building ${granularity} timeline for query: ${query}, from: ${start_year_month}, to: ${end_year_month}`);
+
+    let credits: CreditReservation | null = null;
+    try {
+      const agent = getAgent();
+
+      const buckets = buildDateBuckets(start_year_month, end_year_month, granularity);
+      if (buckets.length === 0) {
+        return { status: "error", error: "invalid_range", message: "Use 'YYYY-MM' for start_year_month and end_year_month, with the start no later than the end." };
+      }
+      if (buckets.length > MAX_TIMELINE_BUCKETS) {
+        return { status: "error", error: "too_many_buckets", message: `This range spans ${buckets.length} ${granularity} buckets (maximum ${MAX_TIMELINE_BUCKETS}). Use a coarser granularity or a shorter range.` };
+      }
+
+      // Reserve credits for every bucket; those of failed buckets are given back
+      const reservation = await agent.reserveCredits("buildTimeline", buckets.length);
+      if ("error" in reservation) {
+        return reservation;
+      }
+      credits = reservation;
+
+      const k = Math.min(docs_per_bucket ?? DEFAULT_TIMELINE_DOCS_PER_BUCKET, MAX_TIMELINE_DOCS_PER_BUCKET);
+      const collectionId = agent.getConversationComponents().collectionId;
+
+      // Query every bucket in parallel; a failed bucket is reported without failing the timeline
+      const bucketResults = await Promise.all(buckets.map(async bucket => {
+        const filters = buildSearchFilters({
+          corpus,
+          classification,
+          doc_type,
+          authored_start_year_month: bucket.start_year_month,
+          authored_end_year_month: bucket.end_year_month
+        });
+
+        try {
+          const results = await agent.searchCollection("buildTimeline", query, collectionId, k, filters);
+          if (results?.error || !Array.isArray(results?.documents)) {
+            logError("buildTimeline", "Error searching timeline bucket", results?.error, { query, bucket });
+            return { ...bucket, status: "error", documents: [] };
+          }
+          return { ...bucket, status: "success", documents: results.documents.slice(0, k) };
+        } catch (error) {
+          logError("buildTimeline", "Error searching timeline bucket", error, { query, bucket });
+          return { ...bucket, status: "error", documents: [] };
+        }
+      }));
+
+      agent.recordSurfacedDocuments(bucketResults.flatMap(bucket => bucket.documents));
+
+      const failedBuckets = bucketResults.filter(bucket => bucket.status === "error").length;
+      await agent.refundCredits(credits, failedBuckets);
+      logInfo("buildTimeline", `Built timeline with ${bucketResults.length} buckets`, { query, failedBuckets });
+
+      return {
+        status: failedBuckets === 0 ? "success" : failedBuckets < bucketResults.length ? "partial_success" : "error",
+        query,
+        granularity,
+        buckets: bucketResults
+      };
+    } catch (error) {
+      logError("buildTimeline", "Error building timeline", error, { query, start_year_month, end_year_month, granularity });
+      if (credits) {
+        await getAgent().refundCredits(credits);
+      }
+      return { status: "error", error: "Failed to build timeline" };
+    }
+  },
+});
+
+/**
+ * List the people, organizations and places mentioned in the documents surfaced so far
+ * 
+ * Entities are extracted from the chunks of every search result in the conversation and
+ * aggregated by document count, so the model can discover who appears in the archive on a topic.
+ */
+const listEntities = tool({
+  description: "List the people, organizations and places mentioned in documents surfaced so far in this conversation, with the number of documents mentioning each",
+  parameters: z.object({
+    type: z.enum(["person", "organization", "place"]).optional().describe("Only list entities of this type"),
+    name_contains: z.string().optional().describe("Only list entities whose name contains this text (case-insensitive)"),
+    limit: z.number().int().positive().optional().describe(`Number of entities to return (default ${DEFAULT_ENTITY_LIMIT}, maximum ${MAX_ENTITY_INDEX_SIZE})`)
+  }),
+  execute: async ({ type, name_contains, limit }) => {
+    logInfo("listEntities", `Listing entities${type ? ` of type ${type}` : ""}${name_contains ? ` matching ${name_contains}` : ""}`);
+
+    try {
+      const agent = getAgent();
+      const surfacedDocuments = agent.getSurfacedDocuments();
+
+      const nameFilter = name_contains?.toLowerCase();
+      const entities = buildEntityIndex(surfacedDocuments, Number.POSITIVE_INFINITY)
+        .filter(entity => !type || entity.type === type)
+        .filter(entity => !nameFilter || entity.name.toLowerCase().includes(nameFilter))
+        .slice(0, Math.min(limit ?? DEFAULT_ENTITY_LIMIT, MAX_ENTITY_INDEX_SIZE))
+        .map(entity => ({ ...entity, r2Keys: entity.r2Keys.slice(0, 5) })); // A few example documents per entity
+
+      return {
+        status: "success",
+        total_documents: getDocumentKeys(surfacedDocuments).size,
+        entities
+      };
+    } catch (error) {
+      logError("listEntities", "Error listing entities", error, { type, name_contains, limit });
+      return { status: "error", error: "Failed to list entities" };
+    }
+  },
+});
+
 /**
  * Submit Feedback tool
  * This tool allows the user to submit feedback about their interaction.
@@ -247,7 +876,13 @@ export const tools = {
   // getCollectionInfo,
   // listCollectionContents,
   queryCollection,
+  batchQueryCollection,
+  findRelatedDocuments,
+  buildTimeline,
   getDocumentText,
+  getDocumentMetadata,
+  askDocument,
+  listEntities,
   submitFeedback
 };
 
@@ -328,25 +963,12 @@ export const executions = {
       const agent = getAgent();
       const feedbackKV = agent.getFeedbackKV();
       const messages = agent.messages; // Original messages
-      const agentName = agent.name || 'unknown-agent';
 
       // Filter the conversation history
       const filteredConversation = filterConversationForFeedback(messages);
 
-      // Decode user/convo IDs (reuse existing logic if possible, or basic split)
-      // Basic split for now, ideally reuse decodeHashedComponents if accessible
-      let userId = 'unknown';
-      let collectionId = 'unknown';
-      let convoId = 'unknown';
-      try {
-        // Attempt to reuse decoding logic or implement a simple version
-        const decoded = Buffer.from(agentName, 'base64').toString('utf-8').split('|');
-        if (decoded.length === 3) {
-          [userId, collectionId, convoId] = decoded;
-        }
-      } catch (error) {
-        logError("SubmitFeedback", "Failed to decode agent name for IDs, using defaults.", error, { agentName });
-      }
+      // Decode user/convo IDs
+      const { userId, collectionId, convoId } = agent.getConversationComponents();
 
       // Generate a unique report ID
       const reportId = `feedback-${userId}-${convoId}-${Date.now()}`;
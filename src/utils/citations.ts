@@ -0,0 +1,49 @@
+// Citation verification utilities
+
+import type { Message } from "@ai-sdk/react";
+
+// Marker the server writes in place of citations of documents no tool returned (matches server/utils/citation-utils.ts)
+export const UNVERIFIED_CITATION_PREFIX = 'cite-unverified';
+
+/**
+ * Collect every r2Key in a tool result, however deeply it is nested
+ * @param result The tool result
+ * @param keys The set to add the r2Keys to
+ */
+const collectResultKeys = (result: unknown, keys: Set<string>): void => {
+  if (Array.isArray(result)) {
+    for (const item of result) {
+      collectResultKeys(item, keys);
+    }
+  } else if (result && typeof result === 'object') {
+    for (const [key, value] of Object.entries(result as Record<string, unknown>)) {
+      if (key === 'r2Key' && typeof value === 'string') {
+        keys.add(value);
+      } else {
+        collectResultKeys(value, keys);
+      }
+    }
+  }
+};
+
+/**
+ * Collect the r2Keys returned by any tool in the conversation (server-side counterpart in server/utils/citation-utils.ts)
+ * Citations of other r2Keys are rendered as unverified, covering replies the server hasn't checked yet
+ * @param messages The conversation messages
+ * @returns The r2Keys the assistant may cite
+ */
+export const getCitableKeys = (messages: Message[]): Set<string> => {
+  const keys = new Set<string>();
+
+  for (const message of messages) {
+    if (message.role !== 'assistant' || !message.parts) continue;
+
+    for (const part of message.parts) {
+      if (part.type === 'tool-invocation' && part.toolInvocation.state === 'result') {
+        collectResultKeys(part.toolInvocation.result, keys);
+      }
+    }
+  }
+
+  return keys;
+};
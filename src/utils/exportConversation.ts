@@ -58,8 +58,12 @@ export function exportConversation(
       const messageText = extractMessageText(message);
       
       // Process citation markers to make them readable in exported markdown
+      // Citations the server couldn't verify are kept as plain notes, without a link
       // Replace {{cite:r2Key}} with clickable document links
       const processedText = messageText.replace(
+        /{{cite-unverified:([^}]+)}}/g,
+        (match, r2Key) => ` [unverified citation: ${r2Key.trim()}]`
+      ).replace(
         /{{cite:([^}]+)}}/g,
         (match, r2Key) => {
           const docId = documentRegistry.getDocumentId(r2Key) || '?';
@@ -74,7 +78,7 @@ export function exportConversation(
             if (message.parts) {
               for (const part of message.parts) {
                 if (part.type === 'tool-invocation' && 
-                    part.toolInvocation?.toolName === 'queryCollection' && 
+                    ['queryCollection', 'batchQueryCollection', 'findRelatedDocuments'].includes(part.toolInvocation?.toolName) && 
                     part.toolInvocation.state === 'result' && 
                     part.toolInvocation.result?.documents) {
                   
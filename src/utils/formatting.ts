@@ -1,5 +1,7 @@
 // Utility functions for formatting
 
+import { CORPUS_LABELS, CLASSIFICATION_LABELS, DOCUMENT_TYPE_LABELS, SEARCH_MODE_LABELS, type SearchToolArgs } from '../shared';
+
 /**
  * Format timestamp for message display
  * @param date Date object to format
@@ -40,6 +42,27 @@ export const formatDateRange = (args: any): string => {
     if (start_month && end_month) return `(${start_month} to ${end_month})`;
     if (start_month) return `(from ${start_month})`;
     if (end_month) return `(until ${end_month})`;
+  } else if (args.authored_period) {
+    return `(${args.authored_period})`;
   }
   return ""; // No date range provided
-}; 
\ No newline at end of file
+};
+
+/**
+ * Format the search mode and metadata filters from query parameters as display labels
+ * @param args Object containing mode, corpus, classification and doc_type parameters
+ * @returns List of labels, one per non-default mode or selected filter value
+ */
+export const formatSearchFilters = (args?: SearchToolArgs): string[] => {
+  if (!args) return [];
+
+  const toLabels = (values: string[] | undefined, labels: Record<string, string>): string[] =>
+    Array.isArray(values) ? values.map(value => labels[value] || value) : [];
+
+  return [
+    ...(args.mode && args.mode !== 'semantic' ? toLabels([args.mode], SEARCH_MODE_LABELS) : []),
+    ...toLabels(args.corpus, CORPUS_LABELS),
+    ...toLabels(args.classification, CLASSIFICATION_LABELS),
+    ...toLabels(args.doc_type, DOCUMENT_TYPE_LABELS),
+  ];
+};
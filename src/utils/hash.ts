@@ -4,23 +4,10 @@
 export const COLLECTION_ID = '80650a98-fe49-429a-afbd-9dde66e2d02b'; // history-lab-1
 
 /**
- * Simple hash function to obfuscate the ID components
- * @param userId User identifier
- * @param collectionId Collection identifier
- * @param conversationId Conversation identifier
- * @returns Hashed string combining all components
- */
-export function hashComponents(userId: string, collectionId: string, conversationId: string): string {
-  // Create a string with all components separated by a delimiter that won't appear in the IDs
-  const combined = `${userId}|${collectionId}|${conversationId}`;
-  
-  // Use btoa for base64 encoding (simple obfuscation, not secure encryption)
-  return btoa(combined);
-}
-
-/**
- * Function to decode the hashed components (server-side counterpart)
- * @param hash The hashed string to decode
+ * Decode the components of a conversation ID (server-side counterpart in server/utils/hash-utils.ts)
+ * Conversation IDs are issued and signed by the server as `v1.<base64url components>.<signature>`;
+ * legacy IDs are plain base64 of the components. The signature is only checked by the server.
+ * @param hash The conversation ID to decode
  * @returns Object containing the original userId, collectionId, and conversationId
  */
 export function decodeHashedComponents(hash: string): { 
@@ -29,8 +16,11 @@ export function decodeHashedComponents(hash: string): {
   conversationId: string 
 } {
   try {
-    // Decode the base64 string
-    const decoded = atob(hash);
+    // Decode the base64url components of a signed ID, or the base64 string of a legacy one
+    const parts = hash.split('.');
+    const decoded = parts.length === 3
+      ? atob(parts[1].replace(/-/g, '+').replace(/_/g, '/'))
+      : atob(hash);
     
     // Split by the delimiter
     const [userId, collectionId, conversationId] = decoded.split('|');
@@ -46,19 +36,3 @@ export function decodeHashedComponents(hash: string): {
     };
   }
 }
-
-/**
- * Generate a new userId
- * @returns Newly generated user ID
- */
-export function generateUserId(): string {
-  return `user_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-}
-
-/**
- * Generate a new conversation ID
- * @returns Newly generated conversation ID
- */
-export function generateConversationId(): string {
-  return `convo_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-} 
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getAuthToken, verifyAuthToken } from "../src/server/utils/auth-utils";
+import { AUTH_VERIFICATION_CACHE_SECONDS } from "../src/server/config";
+import type { Env } from "../src/server/types";
+
+const AUTH_SECRET = "test-secret";
+const env = { AUTH_SECRET } as Env;
+
+function base64url(value: string | Uint8Array): string {
+  const binary = typeof value === "string" ? value : String.fromCharCode(...value);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function signToken(claims: Record<string, unknown>, secret = AUTH_SECRET): Promise<string> {
+  const unsigned = `${base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }))}.${base64url(JSON.stringify(claims))}`;
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${base64url(new Uint8Array(signature))}`;
+}
+
+describe("verifyAuthToken", () => {
+  const exp = Math.floor(Date.now() / 1000) + 3600;
+
+  it("accepts tokens signed with the local secret", async () => {
+    const token = await signToken({ uuid: "user-1", email: "user@example.com", exp });
+    expect(await verifyAuthToken(token, env)).toEqual({ userId: "user-1", email: "user@example.com" });
+  });
+
+  it("rejects tokens signed with another secret, expired or unsigned", async () => {
+    expect(await verifyAuthToken(await signToken({ uuid: "user-1", exp }, "other-secret"), env)).toBeNull();
+    expect(await verifyAuthToken(await signToken({ uuid: "user-1", exp: exp - 7200 }), env)).toBeNull();
+    expect(await verifyAuthToken(btoa(JSON.stringify({ uuid: "user-1", exp })), env)).toBeNull();
+  });
+
+  describe("with the auth service", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("takes the user from the auth service rather than the token claims", async () => {
+      vi.spyOn(globalThis, "fetch").mockResolvedValue(Response.json({ uuid: "user-2", email: "other@example.com" }));
+      const token = btoa(JSON.stringify({ uuid: "user-1", exp }));
+      expect(await verifyAuthToken(token, {} as Env)).toEqual({ userId: "user-2", email: "other@example.com" });
+    });
+
+    it("checks a token with the auth service again once its cached verification expires", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => Response.json({ uuid: "user-4" }));
+      const token = btoa(JSON.stringify({ uuid: "user-4" }));
+      await verifyAuthToken(token, {} as Env);
+      await verifyAuthToken(token, {} as Env);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+      vi.spyOn(Date, "now").mockReturnValue(Date.now() + (AUTH_VERIFICATION_CACHE_SECONDS + 1) * 1000);
+      expect(await verifyAuthToken(token, {} as Env)).toEqual({ userId: "user-4", email: undefined });
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects tokens the auth service doesn't accept", async () => {
+      vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(null, { status: 401 }));
+      expect(await verifyAuthToken(btoa(JSON.stringify({ uuid: "user-3", exp })), {} as Env)).toBeNull();
+    });
+  });
+});
+
+describe("getAuthToken", () => {
+  it("reads the token from the Authorization header or the auth cookie", () => {
+    expect(getAuthToken(new Request("http://example.com", { headers: { Authorization: "Bearer abc" } }))).toBe("abc");
+    expect(getAuthToken(new Request("http://example.com", { headers: { Cookie: "theme=dark; hl_id_token=a%3Db" } }))).toBe("a=b");
+    expect(getAuthToken(new Request("http://example.com"))).toBeNull();
+  });
+});
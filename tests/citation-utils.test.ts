@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import type { Message } from "ai";
+import { checkResponseCitations, flagUnverifiedCitations, getCitableKeys } from "../src/server/utils/citation-utils";
+
+const messages: Message[] = [
+  { id: "user-1", role: "user", content: "Cables on Cuba", parts: [{ type: "text", text: "Cables on Cuba" }] },
+  {
+    id: "assistant-1",
+    role: "assistant",
+    content: "",
+    parts: [
+      {
+        type: "tool-invocation",
+        toolInvocation: {
+          state: "result",
+          toolCallId: "call-1",
+          toolName: "buildTimeline",
+          args: {},
+          result: { status: "success", buckets: [{ documents: [{ file_info: { r2Key: "user/collection/file/doc-1.txt" } }] }] }
+        }
+      },
+      { type: "tool-invocation", toolInvocation: { state: "call", toolCallId: "call-2", toolName: "getDocumentText", args: { r2Key: "user/collection/file/doc-2.txt" } } }
+    ]
+  }
+];
+
+describe("getCitableKeys", () => {
+  it("collects r2Keys nested anywhere in tool results, but not in tool arguments", () => {
+    expect([...getCitableKeys(messages)]).toEqual(["user/collection/file/doc-1.txt"]);
+  });
+});
+
+describe("flagUnverifiedCitations", () => {
+  it("keeps citations of returned documents and flags the others", () => {
+    const checked = flagUnverifiedCitations(
+      "Known {{cite:user/collection/file/doc-1.txt}} and invented {{cite:user/collection/file/doc-9.txt}}",
+      getCitableKeys(messages)
+    );
+    expect(checked.text).toBe("Known {{cite:user/collection/file/doc-1.txt}} and invented {{cite-unverified:user/collection/file/doc-9.txt}}");
+    expect(checked.total).toBe(2);
+    expect(checked.unverified).toEqual(["user/collection/file/doc-9.txt"]);
+  });
+});
+
+describe("checkResponseCitations", () => {
+  it("accepts documents returned by tools during the turn", () => {
+    const responseMessages = [
+      { role: "assistant", content: [{ type: "tool-call", toolCallId: "call-3", toolName: "getDocumentText", args: {} }] },
+      { role: "tool", content: [{ type: "tool-result", toolCallId: "call-3", toolName: "getDocumentText", result: { r2Key: "user/collection/file/doc-3.txt", text: "..." } }] },
+      { role: "assistant", content: [{ type: "text", text: "See {{cite:user/collection/file/doc-3.txt}} and {{cite:made/up.txt}}" }] }
+    ];
+
+    const { messages: checked, citations } = checkResponseCitations(responseMessages, getCitableKeys(messages));
+    expect(checked[2].content).toEqual([{ type: "text", text: "See {{cite:user/collection/file/doc-3.txt}} and {{cite-unverified:made/up.txt}}" }]);
+    expect(citations).toEqual({ total: 2, unverified: ["made/up.txt"] });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { normalizeDateFilters, resolveDateExpression } from "../src/server/utils/date-utils";
+
+describe("resolveDateExpression", () => {
+  it("accepts real YYYY-MM and YYYY-MM-DD dates", () => {
+    expect(resolveDateExpression("1962-10")).toEqual({ start: "1962-10", end: "1962-10", precision: "month" });
+    expect(resolveDateExpression("1964-02-29")).toEqual({ start: "1964-02-29", end: "1964-02-29", precision: "day" });
+  });
+
+  it("rejects impossible months and days", () => {
+    expect(resolveDateExpression("1962-13")).toBeNull();
+    expect(resolveDateExpression("1962-00")).toBeNull();
+    expect(resolveDateExpression("1963-02-29")).toBeNull();
+    expect(resolveDateExpression("1962-04-31")).toBeNull();
+    expect(resolveDateExpression("sometime in the sixties")).toBeNull();
+  });
+
+  it("resolves seasons, with winter running into the next year", () => {
+    expect(resolveDateExpression("spring 1961")).toEqual({ start: "1961-03", end: "1961-05", precision: "month" });
+    expect(resolveDateExpression("winter 1961")).toEqual({ start: "1961-12", end: "1962-02", precision: "month" });
+    expect(resolveDateExpression("winter 1961-62")).toEqual({ start: "1961-12", end: "1962-02", precision: "month" });
+  });
+
+  it("resolves named events regardless of case and apostrophes", () => {
+    expect(resolveDateExpression("Cuban Missile Crisis")).toEqual({ start: "1962-10-16", end: "1962-10-28", precision: "day" });
+    expect(resolveDateExpression("the Tet Offensive")).toEqual({ start: "1968-01-30", end: "1968-03-28", precision: "day" });
+    expect(resolveDateExpression("Nixon’s resignation")).toEqual({ start: "1974-08-09", end: "1974-08-09", precision: "day" });
+  });
+});
+
+describe("normalizeDateFilters", () => {
+  it("reports the field and value of an invalid date", () => {
+    const result = normalizeDateFilters({ authored_start_year_month_day: "1962-02-30" });
+    expect("error" in result && result.error.error).toBe("invalid_date");
+    expect("error" in result && result.error.field).toBe("authored_start_year_month_day");
+    expect("error" in result && result.error.value).toBe("1962-02-30");
+  });
+
+  it("rejects a start after the end", () => {
+    const result = normalizeDateFilters({ authored_start_year_month: "1975-06", authored_end_year_month: "1973-01" });
+    expect("error" in result && result.error.error).toBe("invalid_date_range");
+  });
+
+  it("resolves a named period into day filters", () => {
+    expect(normalizeDateFilters({ authored_period: "Cuban Missile Crisis" })).toEqual({
+      filters: { authored_start_year_month_day: "1962-10-16", authored_end_year_month_day: "1962-10-28" }
+    });
+  });
+
+  it("lets explicit bounds override the period and widens month bounds to days", () => {
+    expect(normalizeDateFilters({ authored_period: "Tet Offensive", authored_end_year_month: "1968-06" })).toEqual({
+      filters: { authored_start_year_month_day: "1968-01-30", authored_end_year_month_day: "1968-06-30" }
+    });
+  });
+
+  it("keeps month filters when every bound is month precision", () => {
+    expect(normalizeDateFilters({ authored_period: "summer 1968" })).toEqual({
+      filters: { authored_start_year_month: "1968-06", authored_end_year_month: "1968-08" }
+    });
+  });
+});
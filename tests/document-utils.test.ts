@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import type { SearchDocument } from "../src/server/types";
+import { getPageNumber, sliceAroundChunk, sliceByCharacters, sliceByPages } from "../src/server/utils/document-utils";
+import { findChunk } from "../src/server/utils/message-utils";
+
+// Three pages separated by form feeds: "Page one text", "Page two text", "Page three text"
+const text = "Page one text\fPage two text\fPage three text";
+
+describe("sliceByCharacters", () => {
+  it("returns a window with the position of the next one", () => {
+    const slice = sliceByCharacters(text, 5, 8);
+    expect(slice.text).toBe("one text");
+    expect(slice.start_char).toBe(5);
+    expect(slice.end_char).toBe(13);
+    expect(slice.has_more).toBe(true);
+    expect(slice.next_start_char).toBe(13);
+    expect(slice.total_pages).toBe(3);
+  });
+
+  it("stops at the end of the document", () => {
+    const slice = sliceByCharacters(text, 28, 1000);
+    expect(slice.text).toBe("Page three text");
+    expect(slice.has_more).toBe(false);
+    expect(slice.next_start_char).toBe(undefined);
+    expect(slice.start_page).toBe(3);
+  });
+});
+
+describe("sliceByPages", () => {
+  it("returns a single page", () => {
+    expect(sliceByPages(text, 2)?.text).toBe("Page two text\f");
+  });
+
+  it("returns an inclusive page range, clamped to the last page", () => {
+    const slice = sliceByPages(text, 2, 9);
+    expect(slice?.text).toBe("Page two text\fPage three text");
+    expect(slice?.start_page).toBe(2);
+    expect(slice?.end_page).toBe(3);
+  });
+
+  it("returns null past the end of the document", () => {
+    expect(sliceByPages(text, 4)).toBeNull();
+  });
+});
+
+describe("sliceAroundChunk", () => {
+  it("finds a chunk by its ID and slices the document around it", () => {
+    const documents: SearchDocument[] = [{
+      document_id: "doc-1",
+      best_score: 0.9,
+      file_info: { r2Key: "user/collection/file/doc-1.txt" },
+      chunks: [{ id: "chunk-7", text: "  Page two text " }]
+    }];
+
+    const found = findChunk(documents, "chunk-7");
+    expect(found?.document.document_id).toBe("doc-1");
+
+    const slice = sliceAroundChunk(text, found?.chunk.text || "", 1000);
+    expect(slice?.text).toBe(text);
+    expect(getPageNumber(text, text.indexOf("Page two"))).toBe(2);
+  });
+
+  it("returns null when the chunk isn't in the document", () => {
+    expect(findChunk([], "chunk-7")).toBeNull();
+    expect(sliceAroundChunk(text, "Not in the document")).toBeNull();
+  });
+});
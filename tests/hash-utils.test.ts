@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { decodeHashedComponents, encodeHashedComponents, verifyHashedComponents } from "../src/server/utils/hash-utils";
+
+const SECRET = "test-secret";
+
+describe("conversation IDs", () => {
+  it("signs IDs that verify and decode to their components", async () => {
+    const id = await encodeHashedComponents("user-1", "collection-1", "convo-1", SECRET);
+    expect(await verifyHashedComponents(id, SECRET)).toEqual({ userId: "user-1", collectionId: "collection-1", convoId: "convo-1", signed: true });
+    expect(decodeHashedComponents(id)).toEqual({ userId: "user-1", collectionId: "collection-1", convoId: "convo-1" });
+  });
+
+  it("rejects IDs with changed components or signed with another secret", async () => {
+    const id = await encodeHashedComponents("user-1", "collection-1", "convo-1", SECRET);
+    const [version, , signature] = id.split(".");
+    const forged = `${version}.${Buffer.from("user-2|collection-1|convo-1").toString("base64url")}.${signature}`;
+    expect(await verifyHashedComponents(forged, SECRET)).toBeNull();
+    expect(await verifyHashedComponents(id, "other-secret")).toBeNull();
+  });
+
+  it("still reads legacy unsigned IDs, flagged as unsigned", async () => {
+    const legacyId = Buffer.from("user-1|collection-1|convo-1").toString("base64");
+    expect(await verifyHashedComponents(legacyId, SECRET)).toEqual({ userId: "user-1", collectionId: "collection-1", convoId: "convo-1", signed: false });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import type { Message } from "ai";
+import { compactHistory } from "../src/server/utils/history-utils";
+
+const searchResult = {
+  status: "success",
+  documents: [{
+    document_id: "doc-1",
+    best_score: 0.9,
+    file_info: { r2Key: "user/collection/file/doc-1.txt", metadata: { title: "Cable" } },
+    chunks: [{ id: "chunk-1", text: "x".repeat(4000), score: 0.9 }]
+  }]
+};
+
+function turn(index: number): Message[] {
+  return [
+    { id: `user-${index}`, role: "user", content: `Question ${index}`, parts: [{ type: "text", text: `Question ${index}` }] },
+    {
+      id: `assistant-${index}`,
+      role: "assistant",
+      content: `Answer ${index}`,
+      parts: [
+        { type: "tool-invocation", toolInvocation: { state: "result", toolCallId: `call-${index}`, toolName: "queryCollection", args: {}, result: searchResult } },
+        { type: "text", text: `Answer ${index}` }
+      ]
+    }
+  ];
+}
+
+describe("compactHistory", () => {
+  const messages = [...turn(1), ...turn(2), ...turn(3)];
+
+  it("leaves histories within the budget unchanged", () => {
+    const { messages: history, compaction } = compactHistory(messages, 100000, 2, 300);
+    expect(history).toBe(messages);
+    expect(compaction).toBeNull();
+  });
+
+  it("summarizes older tool results, keeping document IDs, r2Keys and chunk IDs", () => {
+    const { messages: history, compaction } = compactHistory(messages, 2500, 2, 300);
+    expect(compaction?.throughMessageId).toBe("assistant-1");
+    expect(history).toHaveLength(6);
+
+    const part = history[1].parts?.[0];
+    const result = part?.type === "tool-invocation" && part.toolInvocation.state === "result" ? part.toolInvocation.result : null;
+    expect(result.summarized).toBe(true);
+    expect(result.documents[0].document_id).toBe("doc-1");
+    expect(result.documents[0].file_info.r2Key).toBe("user/collection/file/doc-1.txt");
+    expect(result.documents[0].chunks).toEqual([{ id: "chunk-1", score: 0.9 }]);
+
+    // The recent turns are sent in full
+    expect(history.slice(2)).toEqual(messages.slice(2));
+  });
+
+  it("leaves out whole older turns when summarizing isn't enough", () => {
+    const { messages: history } = compactHistory(messages, 2000, 2, 300);
+    expect(history.map(message => message.id)).toEqual(["user-2", "assistant-2", "user-3", "assistant-3"]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import type { SearchDocument } from "../src/server/types";
+import { fuseSearchResults, fuseSubQueryResults, parseKeywordQuery } from "../src/server/utils/hybrid-search";
+
+function doc(id: string, text: string, docId = id, score = 0.5): SearchDocument {
+  return {
+    document_id: id,
+    best_score: score,
+    file_info: { r2Key: `user/collection/file/${id}.txt`, metadata: { doc_id: docId, title: `Document ${id}` } },
+    chunks: [{ id: `${id}-chunk`, text }]
+  };
+}
+
+describe("parseKeywordQuery", () => {
+  it("splits quoted phrases from terms, dropping stopwords", () => {
+    expect(parseKeywordQuery('"STATE 123456" the Lansdale sabotage')).toEqual({ phrases: ["state 123456"], terms: ["lansdale", "sabotage"] });
+  });
+});
+
+describe("fuseSearchResults", () => {
+  const documents = [
+    doc("a", "A general account of Caribbean policy"),
+    doc("b", "Cable STATE 123456 on Operation MONGOOSE"),
+    doc("c", "MONGOOSE mentioned once")
+  ];
+
+  it("ranks exact matches above semantic neighbours in hybrid mode", () => {
+    const fused = fuseSearchResults(documents, '"STATE 123456" MONGOOSE', "hybrid");
+    expect(fused.map(result => result.document_id)).toEqual(["b", "c", "a"]);
+    expect(fused[0].matched_terms).toEqual(['"state 123456"', "mongoose"]);
+  });
+
+  it("drops documents without a lexical match in keyword mode", () => {
+    expect(fuseSearchResults(documents, '"STATE 123456"', "keyword").map(result => result.document_id)).toEqual(["b"]);
+  });
+});
+
+describe("fuseSubQueryResults", () => {
+  it("deduplicates documents by doc_id, merging chunks and attributing sub-queries", () => {
+    const fused = fuseSubQueryResults([
+      [doc("a", "first", "doc-1", 0.7), doc("b", "second", "doc-2")],
+      [doc("c", "third", "doc-3"), doc("a2", "first again", "doc-1", 0.9)]
+    ]);
+
+    expect(fused.map(result => result.file_info?.metadata?.doc_id)).toEqual(["doc-1", "doc-3", "doc-2"]);
+    expect(fused[0].matched_queries).toEqual([0, 1]);
+    expect(fused[0].best_score).toBe(0.9);
+    expect(fused[0].chunks?.map(chunk => chunk.id)).toEqual(["a-chunk", "a2-chunk"]);
+    expect(fused[1].matched_queries).toEqual([1]);
+  });
+
+  it("ranks a document found by several sub-queries above one found once at a higher rank", () => {
+    const fused = fuseSubQueryResults([[doc("x", "x"), doc("shared", "s")], [doc("y", "y"), doc("shared", "s")]]);
+    expect(fused[0].document_id).toBe("shared");
+  });
+});
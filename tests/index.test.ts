@@ -23,4 +23,12 @@ describe("Chat worker", () => {
     expect(await response.text()).toBe("Not found");
     expect(response.status).toBe(404);
   });
+
+  it("rejects conversation routes when CONVERSATION_ID_SECRET is unset", async () => {
+    const request = new Request("http://example.com/conversations", { method: "POST" });
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(request, { ...env, CONVERSATION_ID_SECRET: "" }, ctx);
+    await waitOnExecutionContext(ctx);
+    expect(response.status).toBe(500);
+  });
 });
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { FixtureDocumentBucket, LocalSearchBackend } from "../src/server/services/local-search-backend";
+import { buildSearchFilters } from "../src/server/utils/search-utils";
+
+describe("LocalSearchBackend", () => {
+  const backend = new LocalSearchBackend();
+
+  it("returns fixture documents in the vector search result shape", async () => {
+    const results = await backend.findSimilarEmbeddings("oil embargo", "local", 5);
+    expect(results.status).toBe("success");
+    expect(results.documents?.[0].document_id).toBe("fixture-cfpf-1973-oil");
+    expect(results.documents?.[0].file_info?.r2Key).toMatch(/fixture-cfpf-1973-oil\.txt$/);
+    expect(results.documents?.[0].chunks?.length).toBeGreaterThan(0);
+  });
+
+  it("applies search filters to chunk metadata", async () => {
+    const filters = buildSearchFilters({ authored_start_year_month: "1970-01", authored_end_year_month: "1976-12" });
+    const results = await backend.findSimilarEmbeddings("missile sites quarantine evacuation", "local", 5, filters);
+    expect(results.documents?.map(doc => doc.document_id)).toEqual(["fixture-pdb-1975-saigon"]);
+  });
+});
+
+describe("FixtureDocumentBucket", () => {
+  const backend = new LocalSearchBackend();
+  const bucket = new FixtureDocumentBucket();
+
+  it("serves the text and metadata of the documents the local backend returns", async () => {
+    const results = await backend.findSimilarEmbeddings("oil embargo", "local", 1);
+    const document = results.documents![0];
+    const file = await bucket.get(document.file_info!.r2Key!);
+    const text = await file!.text();
+    expect(text.includes(document.chunks![0].text!)).toBe(true);
+
+    const head = await bucket.head(document.file_info!.r2Key!);
+    expect(head?.customMetadata?.title).toBe(String(document.file_info?.metadata?.title));
+  });
+
+  it("returns null for keys outside the fixtures", async () => {
+    expect(await bucket.get("missing.txt")).toBeNull();
+    expect(await bucket.head("missing.txt")).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { extractCitedQuotes, indexPhrases, scoreQuote } from "../src/server/utils/quote-utils";
+
+const source = indexPhrases(
+  "The Soviet Union will not tolerate any interference in the internal af-\nfairs of Cuba, and the Premier stated that missiles were purely defensive."
+);
+
+describe("extractCitedQuotes", () => {
+  it("attributes quotes to the citation that follows them", () => {
+    const text = [
+      '> "The Soviet Union will not tolerate any interference"',
+      '> From "Khrushchev\'s Strategic Calculations" (Oct 1962) {{cite:user/collection/file/doc-1.txt}}',
+      '',
+      '1. **"Soviet Arms Transfers to Cuba, 1960-1961"** - Intelligence assessment {{cite:user/collection/file/doc-2.txt}}',
+      'He called them "purely defensive" {{cite:user/collection/file/doc-1.txt}}, and an aide wrote "we have no other option here" with no citation.'
+    ].join("\n");
+
+    expect(extractCitedQuotes(text, 4, 200)).toEqual([
+      { quote: "The Soviet Union will not tolerate any interference", r2Key: "user/collection/file/doc-1.txt" }
+    ]);
+  });
+
+  it("reads citations the server flagged as unverified", () => {
+    expect(extractCitedQuotes('“A quote with four words” {{cite-unverified:made/up.txt}}', 4, 200)).toEqual([
+      { quote: "A quote with four words", r2Key: "made/up.txt" }
+    ]);
+  });
+});
+
+describe("scoreQuote", () => {
+  it("matches quotes regardless of case, punctuation and hyphenated line breaks", () => {
+    expect(scoreQuote("interference in the internal affairs of Cuba", source)).toBe(1);
+  });
+
+  it("matches quotes with elided words", () => {
+    expect(scoreQuote("The Soviet Union will not tolerate … the internal affairs of Cuba", source)).toBe(1);
+  });
+
+  it("scores paraphrases low", () => {
+    expect(scoreQuote("the Soviet Union would never accept foreign meddling in Cuba", source)).toBeLessThan(0.8);
+  });
+});
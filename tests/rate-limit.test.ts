@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { getRateLimitScope, getRequestIdentities } from "../src/server/middleware/rate-limit";
+import { encodeHashedComponents } from "../src/server/utils/hash-utils";
+import type { Env } from "../src/server/types";
+
+const env = { CONVERSATION_ID_SECRET: "test-secret", AUTH_SECRET: "test-auth-secret" } as Env;
+const headers = { "CF-Connecting-IP": "203.0.113.7" };
+
+describe("getRequestIdentities", () => {
+  it("counts credit balance requests by the user of a signed conversation ID", async () => {
+    const conversationId = await encodeHashedComponents("user-1", "collection-1", "convo-1", env.CONVERSATION_ID_SECRET);
+    const request = new Request(`http://example.com/credits?conversationId=${encodeURIComponent(conversationId)}`, { headers });
+    expect(await getRequestIdentities(request, env)).toEqual(["ip:203.0.113.7", "user:user-1"]);
+  });
+
+  it("counts requests with unsigned conversation IDs by IP address only", async () => {
+    const request = new Request(`http://example.com/credits?conversationId=${btoa("user-1|collection-1|convo-1")}`, { headers });
+    expect(await getRequestIdentities(request, env)).toEqual(["ip:203.0.113.7"]);
+  });
+});
+
+describe("getRateLimitScope", () => {
+  it("counts message history polling apart from agent connections", () => {
+    expect(getRateLimitScope("/agents/chat/abc")).toBe("connect");
+    expect(getRateLimitScope("/agents/chat/abc/get-messages")).toBe("history");
+    expect(getRateLimitScope("/credits")).toBe("http");
+  });
+});
@@ -0,0 +1,29 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { SearchCacheClient } from "../src/server/services/search-cache";
+import type { SearchResponse } from "../src/server/types";
+
+const response: SearchResponse = {
+  status: "success",
+  documents: [{ document_id: "doc-1", best_score: 0.9, chunks: [] }],
+  total_chunks: 1
+};
+
+describe("search cache", () => {
+  it("shares responses between conversations searching the same collection", async () => {
+    const first = new SearchCacheClient(env.SEARCH_CACHE);
+    const second = new SearchCacheClient(env.SEARCH_CACHE);
+    const key = await first.createKey({ query: "Cuban missile crisis", collectionId: "collection-1", topK: 10 });
+
+    expect(await second.get("collection-1", key)).toBeNull();
+    await first.set("collection-1", key, response);
+    expect(await second.get("collection-1", key)).toEqual(response);
+    expect(await second.get("collection-2", key)).toBeNull();
+  });
+
+  it("gives equivalent searches the same key", async () => {
+    const cache = new SearchCacheClient(env.SEARCH_CACHE);
+    const key = await cache.createKey({ query: " Cuban  Missile crisis", collectionId: "collection-1", topK: 10, filters: { corpus: { $in: ["frus", "cia"] } } });
+    expect(await cache.createKey({ query: "cuban missile crisis", collectionId: "collection-1", topK: 10, filters: { corpus: { $in: ["cia", "frus"] } } })).toBe(key);
+  });
+});
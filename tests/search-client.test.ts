@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { CircuitBreaker } from "../src/server/services/search-client";
+import { SEARCH_CIRCUIT_COOLDOWN_MS, SEARCH_CIRCUIT_FAILURE_THRESHOLD } from "../src/server/config";
+
+describe("search circuit breaker", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Open a breaker with a run of failures at the given time
+  const openBreaker = (now: number) => {
+    vi.spyOn(Date, "now").mockReturnValue(now);
+    const breaker = new CircuitBreaker();
+    for (let failure = 0; failure < SEARCH_CIRCUIT_FAILURE_THRESHOLD; failure++) {
+      breaker.recordFailure();
+    }
+    return breaker;
+  };
+
+  it("opens after a run of consecutive failures", () => {
+    vi.spyOn(Date, "now").mockReturnValue(0);
+    const breaker = new CircuitBreaker();
+    for (let failure = 1; failure < SEARCH_CIRCUIT_FAILURE_THRESHOLD; failure++) {
+      breaker.recordFailure();
+    }
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getRetryAfterMs()).toBe(SEARCH_CIRCUIT_COOLDOWN_MS);
+  });
+
+  it("doesn't open when failures are interrupted by a success", () => {
+    vi.spyOn(Date, "now").mockReturnValue(0);
+    const breaker = new CircuitBreaker();
+    for (let failure = 1; failure < SEARCH_CIRCUIT_FAILURE_THRESHOLD; failure++) {
+      breaker.recordFailure();
+    }
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.isOpen()).toBe(false);
+  });
+
+  it("lets a single trial call through once the cooldown has passed", () => {
+    const breaker = openBreaker(0);
+
+    vi.spyOn(Date, "now").mockReturnValue(SEARCH_CIRCUIT_COOLDOWN_MS - 1);
+    expect(breaker.allowRequest()).toBe(false);
+
+    vi.spyOn(Date, "now").mockReturnValue(SEARCH_CIRCUIT_COOLDOWN_MS);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it("closes when the trial call succeeds", () => {
+    const breaker = openBreaker(0);
+    vi.spyOn(Date, "now").mockReturnValue(SEARCH_CIRCUIT_COOLDOWN_MS);
+    breaker.allowRequest();
+
+    breaker.recordSuccess();
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it("reopens for another cooldown when the trial call fails", () => {
+    const breaker = openBreaker(0);
+    vi.spyOn(Date, "now").mockReturnValue(SEARCH_CIRCUIT_COOLDOWN_MS);
+    breaker.allowRequest();
+
+    breaker.recordFailure();
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getRetryAfterMs()).toBe(SEARCH_CIRCUIT_COOLDOWN_MS);
+  });
+});
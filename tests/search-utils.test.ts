@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { buildSearchFilters, decodeSearchCursor, encodeSearchCursor, getSearchScope } from "../src/server/utils/search-utils";
+
+describe("search cursors", () => {
+  const scope = getSearchScope(buildSearchFilters({ corpus: ["frus"], authored_start_year_month: "1962-10" }), 10);
+
+  it("round-trips a search position", () => {
+    const cursor = encodeSearchCursor({ offset: 20, query: "missile crisis", mode: "hybrid", scope });
+    expect(decodeSearchCursor(cursor)).toEqual({ offset: 20, query: "missile crisis", mode: "hybrid", scope });
+  });
+
+  it("rejects a cursor whose fields no longer match its checksum", () => {
+    const decoded = JSON.parse(Buffer.from(encodeSearchCursor({ offset: 20, query: "missile crisis", mode: "semantic", scope }), "base64").toString("utf-8"));
+    const tampered = Buffer.from(JSON.stringify({ ...decoded, offset: 90 })).toString("base64");
+    expect(decodeSearchCursor(tampered)).toBeNull();
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodeSearchCursor("not a cursor")).toBeNull();
+    expect(decodeSearchCursor(Buffer.from(JSON.stringify({ offset: -1, query: "q", mode: "semantic", scope })).toString("base64"))).toBeNull();
+  });
+});
+
+describe("getSearchScope", () => {
+  it("is the same for the same filters in any order", () => {
+    const a = getSearchScope(buildSearchFilters({ corpus: ["frus", "cia"], classification: ["secret"] }), 10);
+    const b = getSearchScope(buildSearchFilters({ classification: ["secret"], corpus: ["cia", "frus"] }), 10);
+    expect(a).toBe(b);
+  });
+
+  it("differs when the filters or page size change", () => {
+    const filters = buildSearchFilters({ corpus: ["frus"] });
+    expect(getSearchScope(filters, 10) === getSearchScope(filters, 20)).toBe(false);
+    expect(getSearchScope(filters, 10) === getSearchScope(buildSearchFilters({ corpus: ["cia"] }), 10)).toBe(false);
+  });
+});
+
+describe("buildSearchFilters", () => {
+  it("uses $eq for equal date bounds and a range otherwise", () => {
+    expect(buildSearchFilters({ authored_start_year_month: "1962-10", authored_end_year_month: "1962-10" }))
+      .toEqual({ authored_year_month: { $eq: 196210 } });
+    expect(buildSearchFilters({ authored_start_year_month_day: "1962-10-16", authored_end_year_month_day: "1962-10-28", authored_start_year_month: "1962-01" }))
+      .toEqual({ authored_year_month_day: { $gte: 19621016, $lte: 19621028 } });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { addSearchCacheStats, addTurnToDailyUsage, calculateTurnUsage, estimateCost } from "../src/server/utils/usage-utils";
+import type { TurnModel } from "../src/server/types";
+
+const model: TurnModel = { provider: "google", name: "models/gemini-2.0-flash", mode: "standard", fallback: false };
+
+describe("usage accounting", () => {
+  it("prices models by name, including versioned provider model IDs", () => {
+    expect(estimateCost("gpt-4o-2024-11-20", { promptTokens: 1_000_000, completionTokens: 100_000, totalTokens: 1_100_000 })).toBe(3.5);
+    expect(estimateCost("gemini-2.0-flash-001", { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 })).toBe(0.1);
+    expect(estimateCost("unknown-model", { promptTokens: 1, completionTokens: 1, totalTokens: 2 })).toBeNull();
+  });
+
+  it("adds up the steps of a turn and rolls turns up per day", () => {
+    const turn = calculateTurnUsage(
+      [
+        { usage: { promptTokens: 1000, completionTokens: 100 }, response: { modelId: "gemini-2.0-flash" } },
+        { usage: { promptTokens: 3000, completionTokens: 500 } }
+      ],
+      "message-1",
+      model,
+      [{ toolName: "queryCollection", toolCallId: "call-1", durationMs: 250 }]
+    );
+    expect(turn.usage).toEqual({ promptTokens: 4000, completionTokens: 600, totalTokens: 4600 });
+    expect(turn.steps[1].modelId).toBe("models/gemini-2.0-flash");
+    expect(turn.costUsd).toBeCloseTo(0.00064);
+
+    const daily = addTurnToDailyUsage(addTurnToDailyUsage(null, "user-1", "2025-04-01", "convo-1", turn), "user-1", "2025-04-01", "convo-1", turn);
+    expect(daily.turns).toBe(2);
+    expect(daily.usage.totalTokens).toBe(9200);
+    expect(daily.toolCalls).toEqual({ total: 2, durationMs: 500 });
+    expect(daily.conversations).toEqual(["convo-1"]);
+  });
+
+  it("adds search cache hits and misses by tool", () => {
+    const first = addSearchCacheStats(undefined, { hits: 1, misses: 2, byTool: { queryCollection: { hits: 1, misses: 0 }, buildTimeline: { hits: 0, misses: 2 } } });
+    const second = addSearchCacheStats(first, { hits: 3, misses: 1, byTool: { buildTimeline: { hits: 3, misses: 0 }, batchQueryCollection: { hits: 0, misses: 1 } } });
+    expect(second).toEqual({
+      hits: 4,
+      misses: 3,
+      byTool: {
+        queryCollection: { hits: 1, misses: 0 },
+        buildTimeline: { hits: 3, misses: 2 },
+        batchQueryCollection: { hits: 0, misses: 1 }
+      }
+    });
+  });
+});
@@ -8,6 +8,14 @@ export default defineWorkersConfig({
     poolOptions: {
       workers: {
         wrangler: { configPath: "./wrangler.jsonc" },
+        miniflare: {
+          // Search the fixture documents, and replace the vector-search-worker-3 service binding
+          // (which doesn't exist locally) with a handler that reports it unavailable
+          bindings: { SEARCH_BACKEND: "local" },
+          serviceBindings: {
+            VECTORIZE_SEARCH: () => new Response("The vector search service isn't available in tests", { status: 503 }),
+          },
+        },
       },
     },
   },